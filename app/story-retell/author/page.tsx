@@ -0,0 +1,22 @@
+import { Suspense } from "react"
+import Link from "next/link"
+import StoryAuthor from "@/components/story-author"
+
+export default function Page() {
+  return (
+    <main className="min-h-dvh bg-background text-foreground flex items-center justify-center p-6">
+      <div className="w-full max-w-3xl">
+        <h1 className="text-2xl md:text-3xl font-semibold text-balance mb-4">Story Authoring</h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          Write a new story, review the suggested keywords and difficulty, and export it for the story bank.{" "}
+          <Link href="/story-retell" className="underline underline-offset-4">
+            Back to practice
+          </Link>
+        </p>
+        <Suspense fallback={<div className="text-sm">Loading…</div>}>
+          <StoryAuthor />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
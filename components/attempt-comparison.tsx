@@ -0,0 +1,107 @@
+"use client"
+
+import { ArrowDown, ArrowUp, Minus } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { getScorer } from "@/lib/scorers"
+import type { PracticeSession } from "@/lib/types"
+
+type AttemptComparisonProps = {
+  previous: PracticeSession
+  current: PracticeSession
+}
+
+// Side-by-side matched/missing keywords for a retry and the attempt it retried
+export default function AttemptComparison({ previous, current }: AttemptComparisonProps) {
+  const delta = current.score - previous.score
+  const previouslyMatched = new Set(previous.breakdown.matchedKeywords)
+  const sameScorer = previous.breakdown.scorerId === current.breakdown.scorerId
+  const sameMode = previous.responseMode === current.responseMode
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">Compared with your previous attempt</span>
+        <Badge variant={delta > 0 ? "default" : delta < 0 ? "destructive" : "secondary"}>
+          {delta > 0 ? <ArrowUp className="h-3 w-3" /> : delta < 0 ? <ArrowDown className="h-3 w-3" /> : <Minus className="h-3 w-3" />}
+          {delta > 0 ? "+" : ""}
+          {delta}%
+        </Badge>
+      </div>
+      {!sameScorer && (
+        <p className="text-xs text-muted-foreground">
+          Scored with different modes ({getScorer(previous.breakdown.scorerId).label} vs{" "}
+          {getScorer(current.breakdown.scorerId).label}), so the percentages aren't directly comparable.
+        </p>
+      )}
+      {!sameMode && (
+        <p className="text-xs text-muted-foreground">
+          One attempt was typed and the other spoken, so the percentages aren't directly comparable.
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <AttemptColumn title="Previous attempt" session={previous} />
+        <AttemptColumn title="This attempt" session={current} previouslyMatched={previouslyMatched} />
+      </div>
+    </div>
+  )
+}
+
+type AttemptColumnProps = {
+  title: string
+  session: PracticeSession
+  // When set, keywords gained or dropped since the previous attempt are flagged
+  previouslyMatched?: Set<string>
+}
+
+function AttemptColumn({ title, session, previouslyMatched }: AttemptColumnProps) {
+  const { matchedKeywords, missingKeywords } = session.breakdown
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-medium">{title}</div>
+          <div className="text-xs text-muted-foreground">
+            {session.timestamp.toLocaleDateString()} at {session.timestamp.toLocaleTimeString()}
+          </div>
+        </div>
+        <div className="text-2xl font-bold text-primary">{session.score}%</div>
+      </div>
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">Matched ({matchedKeywords.length})</div>
+        <div className="flex flex-wrap gap-1">
+          {matchedKeywords.length > 0 ? (
+            matchedKeywords.map((keyword) =>
+              previouslyMatched && !previouslyMatched.has(keyword) ? (
+                <Badge key={keyword} variant="outline" className="text-xs bg-green-50 text-green-700 border-green-200">
+                  {keyword}
+                  <span className="opacity-70">(new)</span>
+                </Badge>
+              ) : (
+                <Badge key={keyword} variant="secondary" className="text-xs">
+                  {keyword}
+                </Badge>
+              ),
+            )
+          ) : (
+            <span className="text-muted-foreground text-sm">None</span>
+          )}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">Missing ({missingKeywords.length})</div>
+        <div className="flex flex-wrap gap-1">
+          {missingKeywords.length > 0 ? (
+            missingKeywords.map((keyword) => (
+              <Badge key={keyword} variant="destructive" className="text-xs">
+                {keyword}
+                {previouslyMatched?.has(keyword) && <span className="opacity-70">(dropped)</span>}
+              </Badge>
+            ))
+          ) : (
+            <span className="text-green-600 text-sm">None</span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
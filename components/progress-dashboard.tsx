@@ -0,0 +1,232 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Trash2, TrendingDown, TrendingUp, Trophy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { usePracticeHistory } from "@/hooks/use-practice-history"
+import {
+  DIFFICULTIES,
+  ROLLING_WINDOW,
+  bestScoresByStory,
+  buildScoreTrend,
+  sessionsForLanguage,
+  sessionsForMode,
+  summarizeByDifficulty,
+} from "@/lib/progress"
+import { DEFAULT_LANGUAGE, getLanguagePack } from "@/lib/languages"
+import type { ResponseMode } from "@/lib/types"
+
+const trendConfig = {
+  easy: { label: "Easy", color: "var(--chart-2)" },
+  medium: { label: "Medium", color: "var(--chart-4)" },
+  hard: { label: "Hard", color: "var(--chart-5)" },
+  rollingAverage: { label: `Rolling avg (${ROLLING_WINDOW})`, color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+const bestConfig = {
+  best: { label: "Best score", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+export default function ProgressDashboard() {
+  const { sessions: allSessions, loaded, clearHistory } = usePracticeHistory()
+  const [selectedLanguage, setLanguage] = useState<string | null>(null)
+  // Languages in order of first practice; story ids and scores from different banks aren't comparable
+  const languages = useMemo(
+    () => [...new Set([...allSessions].reverse().map((s) => s.language))],
+    [allSessions],
+  )
+  // Until one is picked, show the language practised most recently
+  const language = selectedLanguage ?? allSessions[0]?.language ?? DEFAULT_LANGUAGE
+  const languageSessions = useMemo(() => sessionsForLanguage(allSessions, language), [allSessions, language])
+  const [selectedMode, setMode] = useState<ResponseMode | null>(null)
+  const hasTyped = useMemo(() => languageSessions.some((s) => s.responseMode === "typed"), [languageSessions])
+  // Until one is picked, show spoken retells unless every session so far was typed
+  const mode = selectedMode ?? (languageSessions.some((s) => s.responseMode === "spoken") ? "spoken" : "typed")
+  const sessions = useMemo(() => sessionsForMode(languageSessions, mode), [languageSessions, mode])
+
+  const trend = useMemo(() => buildScoreTrend(sessions), [sessions])
+  const storyBests = useMemo(() => bestScoresByStory(sessions), [sessions])
+  const summary = useMemo(() => summarizeByDifficulty(sessions), [sessions])
+
+  if (!loaded) {
+    return <div className="text-sm">Loading…</div>
+  }
+
+  if (allSessions.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>No practice sessions yet</CardTitle>
+          <CardDescription>Complete a few retells and your score trends will show up here.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <Link href="/story-retell">Start Practice</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Each language's story bank is charted separately */}
+      {languages.length > 1 && (
+        <div className="flex items-center gap-2">
+          {languages.map((option) => (
+            <Button key={option} size="sm" variant={language === option ? "default" : "outline"} onClick={() => setLanguage(option)}>
+              {getLanguagePack(option).label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Spoken and typed retells are charted separately */}
+      {hasTyped && (
+        <div className="flex items-center gap-2">
+          {(["spoken", "typed"] as const).map((option) => (
+            <Button key={option} size="sm" variant={mode === option ? "default" : "outline"} onClick={() => setMode(option)}>
+              {option === "spoken" ? "Spoken retells" : "Typed retells"}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Per-difficulty summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {DIFFICULTIES.map((difficulty) => {
+          const stats = summary[difficulty]
+          return (
+            <Card key={difficulty}>
+              <CardHeader>
+                <CardDescription className="capitalize">{difficulty}</CardDescription>
+                <CardTitle className="text-3xl">{stats.attempts ? `${stats.average}%` : "—"}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm text-muted-foreground">
+                <div>{stats.attempts} attempt{stats.attempts === 1 ? "" : "s"} · best {stats.best}%</div>
+                {stats.recentChange !== null && (
+                  <div className={stats.recentChange >= 0 ? "flex items-center gap-1 text-green-600" : "flex items-center gap-1 text-destructive"}>
+                    {stats.recentChange >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                    {stats.recentChange >= 0 ? "+" : ""}{stats.recentChange} pts over last {ROLLING_WINDOW}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      {/* Score trend */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Score Over Time</CardTitle>
+          <CardDescription>
+            Each attempt plotted by difficulty, with a rolling average across your last {ROLLING_WINDOW} sessions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={trendConfig} className="aspect-auto h-72 w-full">
+            <LineChart data={trend} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="attempt" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const point = payload?.[0]?.payload
+                      return point ? `Attempt ${point.attempt} · ${point.date}` : ""
+                    }}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {DIFFICULTIES.map((difficulty) => (
+                <Line
+                  key={difficulty}
+                  dataKey={difficulty}
+                  type="monotone"
+                  stroke={`var(--color-${difficulty})`}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              ))}
+              <Line
+                dataKey="rollingAverage"
+                type="monotone"
+                stroke="var(--color-rollingAverage)"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {/* Per-story bests */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Best Score per Story
+          </CardTitle>
+          <CardDescription>Your top score on every story you have attempted.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={bestConfig} className="aspect-auto h-64 w-full">
+            <BarChart data={storyBests} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="storyId" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(id) => `#${id}`} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const entry = payload?.[0]?.payload
+                      return entry ? `Story #${entry.storyId} · ${entry.attempts} attempt${entry.attempts === 1 ? "" : "s"}` : ""
+                    }}
+                  />
+                }
+              />
+              <Bar dataKey="best" fill="var(--color-best)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <div className="flex flex-wrap gap-2">
+            {storyBests.map((entry) => (
+              <Badge key={entry.storyId} variant="outline" className="text-xs">
+                #{entry.storyId} {entry.difficulty}: {entry.best}%
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            if (window.confirm("Delete every practice session and recording? This cannot be undone.")) clearHistory()
+          }}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Clear history
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { loadRecording } from "@/lib/history-store"
+import type { SessionRecording } from "@/lib/types"
+
+type RecordingPlayerProps = {
+  sessionId: string
+  recording: SessionRecording
+  // Pass the clip directly when it may not be in IndexedDB yet (just-finished session)
+  audio?: Blob | null
+}
+
+// Playback of a recorded retelling, with transcript chunks that follow the audio and seek on click
+export default function RecordingPlayer({ sessionId, recording, audio }: RecordingPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [url, setUrl] = useState<string | null>(null)
+  const [missing, setMissing] = useState(false)
+  const [currentMs, setCurrentMs] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    let objectUrl: string | null = null
+    const use = (blob: Blob | null) => {
+      if (cancelled) return
+      if (!blob) {
+        setMissing(true)
+        return
+      }
+      objectUrl = URL.createObjectURL(blob)
+      setUrl(objectUrl)
+    }
+
+    if (audio) {
+      use(audio)
+    } else {
+      loadRecording(sessionId)
+        .then(use)
+        .catch((error) => {
+          console.warn("Failed to load recording:", error)
+          use(null)
+        })
+    }
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [sessionId, audio])
+
+  const seek = (ms: number) => {
+    const element = audioRef.current
+    if (!element) return
+    element.currentTime = ms / 1000
+    element.play().catch(() => {})
+  }
+
+  if (missing) {
+    return <p className="text-sm text-muted-foreground">The recording for this session is no longer available.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <audio
+        ref={audioRef}
+        src={url ?? undefined}
+        controls
+        preload="metadata"
+        className="w-full"
+        onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+      />
+      {recording.segments.length > 0 && (
+        <p className="text-sm leading-relaxed">
+          {recording.segments.map((segment, index) => {
+            const active = currentMs >= segment.startMs && currentMs < segment.endMs
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => seek(segment.startMs)}
+                title={`${(segment.startMs / 1000).toFixed(1)}s`}
+                className={cn("rounded-sm px-0.5 text-left hover:bg-muted", active && "bg-primary/10 text-primary")}
+              >
+                {segment.text}
+              </button>
+            )
+          })}
+        </p>
+      )}
+    </div>
+  )
+}
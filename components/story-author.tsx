@@ -0,0 +1,516 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Copy, Download, FileUp, Plus, Sparkles, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DEFAULT_LANGUAGE } from "@/lib/languages"
+import {
+  STORY_BANKS,
+  categorizeStoryDifficulty,
+  countWords,
+  getStoryBankSource,
+  mergeImportedStories,
+  nextStoryId,
+  parseNumberedStories,
+  parseStoryBank,
+  serializeStory,
+  serializeStoryBank,
+  suggestKeywords,
+  turnsMatchText,
+} from "@/lib/story-bank"
+import type { StoryImportResult } from "@/lib/story-bank"
+import type { StoryDifficulty, StoryTurn, StoryWithDifficulty } from "@/lib/types"
+
+export default function StoryAuthor() {
+  const [bank, setBank] = useState<StoryWithDifficulty[]>([])
+  // False while the selected bank loads or after it failed to; exporting then could drop or clash with its stories
+  const [bankLoaded, setBankLoaded] = useState(false)
+  // Which language's bank the story is written for; keywords are suggested and exported for it
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE)
+  const bankSource = getStoryBankSource(language)
+  const bankFileName = bankSource.url.split("/").pop()!
+  const [text, setText] = useState("")
+  const [id, setId] = useState<number>(1)
+  // null means "use the suggested difficulty"
+  const [difficulty, setDifficulty] = useState<StoryDifficulty | null>(null)
+  const [keywords, setKeywords] = useState<string[]>([])
+  // Comma-separated synonyms as typed, per keyword
+  const [synonymText, setSynonymText] = useState<Record<string, string>>({})
+  const [audioUrl, setAudioUrl] = useState("")
+  // null until the author adds or loads turns; until then an exported story keeps the turns it replaces
+  const [turns, setTurns] = useState<StoryTurn[] | null>(null)
+  const [newKeyword, setNewKeyword] = useState("")
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [importResult, setImportResult] = useState<StoryImportResult | null>(null)
+
+  // Load the current bank so new stories get a free id and can be merged on export. The previous language's
+  // stories are cleared first so they can never be exported under this bank's file name.
+  useEffect(() => {
+    let cancelled = false
+    setBank([])
+    setBankLoaded(false)
+    setId(1)
+    setTurns(null)
+    setImportResult(null)
+    setError(null)
+    async function load() {
+      try {
+        const response = await fetch(bankSource.url)
+        if (!response.ok) throw new Error("Failed to fetch stories")
+        const data = await response.json()
+        if (cancelled) return
+        const { stories } = parseStoryBank(data)
+        setBank(stories)
+        setId(nextStoryId(stories))
+        setBankLoaded(true)
+        setError(null)
+      } catch (e) {
+        if (cancelled) return
+        setError("Failed to load the existing story bank. Exporting is disabled until it loads; reload the page to retry.")
+        console.error("Error loading stories:", e)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [bankSource.url])
+
+  const wordCount = useMemo(() => countWords(text), [text])
+  const suggestedDifficulty = useMemo(() => (text.trim() ? categorizeStoryDifficulty(text) : null), [text])
+  const suggestions = useMemo(
+    () => (text.trim() ? suggestKeywords(text, 20, language).filter((k) => !keywords.includes(k)) : []),
+    [text, keywords, language],
+  )
+
+  const effectiveDifficulty = difficulty ?? suggestedDifficulty ?? "easy"
+  const existingStory = bank.find((story) => story.id === id)
+  const idTaken = !!existingStory
+  const filledTurns = (turns ?? [])
+    .map((turn) => ({ speaker: turn.speaker.trim(), text: turn.text.replace(/\s+/g, " ").trim() }))
+    .filter((turn) => turn.text)
+
+  const synonyms = Object.fromEntries(
+    keywords
+      .map((keyword) => [keyword, (synonymText[keyword] ?? "").split(",").map((s) => s.trim()).filter(Boolean)] as const)
+      .filter(([, list]) => list.length > 0),
+  )
+
+  const story: StoryWithDifficulty = {
+    id,
+    text: text.replace(/\s+/g, " ").trim(),
+    difficulty: effectiveDifficulty,
+    wordCount,
+    keyWords: keywords,
+    synonyms,
+    ...(audioUrl.trim() ? { audioUrl: audioUrl.trim() } : {}),
+    ...(filledTurns.length > 0 ? { turns: filledTurns } : {}),
+  }
+  const turnsInvalid =
+    filledTurns.length > 0 && (filledTurns.some((turn) => !turn.speaker) || !turnsMatchText(filledTurns, story.text))
+
+  const storyJson = serializeStory(story, "")
+
+  const updateTurn = (index: number, change: Partial<StoryTurn>) => {
+    setTurns((prev) => (prev ?? []).map((turn, i) => (i === index ? { ...turn, ...change } : turn)))
+  }
+
+  const addKeyword = (keyword: string) => {
+    const cleaned = keyword.trim()
+    if (!cleaned || keywords.includes(cleaned)) return
+    setKeywords((prev) => [...prev, cleaned])
+  }
+
+  const copyStory = async () => {
+    try {
+      await navigator.clipboard.writeText(storyJson)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (e) {
+      console.error("Copy failed:", e)
+    }
+  }
+
+  const downloadStories = (stories: StoryWithDifficulty[]) => {
+    const blob = new Blob([serializeStoryBank({ language, stories })], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = bankFileName
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Replaces an existing story with the same id, otherwise appends. The editor doesn't load the story it
+  // replaces, so synonyms, audio and (unless edited here) turns it leaves unset are carried over, turns only
+  // while they still add up to the text.
+  const downloadBank = () => {
+    const existing = bank.find((s) => s.id === story.id)
+    const replacement: StoryWithDifficulty = existing
+      ? {
+          ...story,
+          synonyms: { ...existing.synonyms, ...story.synonyms },
+          audioUrl: story.audioUrl ?? existing.audioUrl,
+          turns:
+            turns !== null
+              ? story.turns
+              : existing.turns && turnsMatchText(existing.turns, story.text)
+                ? existing.turns
+                : undefined,
+        }
+      : story
+    const merged = existing
+      ? bank.map((s) => (s.id === story.id ? replacement : s))
+      : [...bank, story]
+    downloadStories(merged)
+  }
+
+  // Imported stories join the bank in memory, so the next free id and later exports include them
+  const importTextFile = async (file: File) => {
+    try {
+      const texts = parseNumberedStories(await file.text())
+      if (texts.length === 0) {
+        setError(`No numbered stories found in ${file.name}. Expected lines like "1.Once upon a time…".`)
+        return
+      }
+      const result = mergeImportedStories({ language, stories: bank }, texts)
+      setBank(result.bank.stories)
+      setId(nextStoryId(result.bank.stories))
+      setImportResult(result)
+      setError(null)
+    } catch (e) {
+      setError(`Could not read ${file.name}.`)
+      console.error("Import failed:", e)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Story Text</CardTitle>
+          <CardDescription>Paste or write the story. Word count, keywords and difficulty update as you type.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="It was a sunny day and two friends went out on the lake…"
+            className="min-h-40"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="story-bank">Story Bank</Label>
+              <select
+                id="story-bank"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className="w-full p-2 border rounded-md"
+              >
+                {STORY_BANKS.map((source) => (
+                  <option key={source.language} value={source.language}>
+                    {source.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="story-id">Story ID</Label>
+              <Input
+                id="story-id"
+                type="number"
+                min={1}
+                value={id}
+                onChange={(e) => setId(parseInt(e.target.value, 10) || 1)}
+                aria-invalid={idTaken}
+              />
+              {idTaken && (
+                <p className="text-xs text-orange-700">Story #{id} already exists and will be replaced on export.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Word Count</Label>
+              <div className="h-9 flex items-center text-lg font-semibold">{wordCount}</div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="story-difficulty">Difficulty</Label>
+              <select
+                id="story-difficulty"
+                value={difficulty ?? ""}
+                onChange={(e) => setDifficulty((e.target.value || null) as StoryDifficulty | null)}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="">Suggested{suggestedDifficulty ? ` (${suggestedDifficulty})` : ""}</option>
+                <option value="easy">Easy</option>
+                <option value="medium">Medium</option>
+                <option value="hard">Hard</option>
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="story-audio">Narration Audio (optional)</Label>
+            <Input
+              id="story-audio"
+              value={audioUrl}
+              onChange={(e) => setAudioUrl(e.target.value)}
+              placeholder="/audio/story-1.mp3"
+            />
+            <p className="text-xs text-muted-foreground">
+              A recording in public/ or a full URL. Practice plays it instead of text-to-speech.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keywords</CardTitle>
+          <CardDescription>
+            Pick from the suggestions or add your own. Multi-word phrases like "dark clouds" are supported.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-1">
+            {keywords.length > 0 ? (
+              keywords.map((keyword) => (
+                <Badge key={keyword} variant="secondary" className="text-xs">
+                  {keyword}
+                  <button
+                    type="button"
+                    aria-label={`Remove ${keyword}`}
+                    onClick={() => setKeywords((prev) => prev.filter((k) => k !== keyword))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))
+            ) : (
+              <span className="text-muted-foreground text-sm">No keywords yet</span>
+            )}
+          </div>
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              addKeyword(newKeyword)
+              setNewKeyword("")
+            }}
+          >
+            <Input value={newKeyword} onChange={(e) => setNewKeyword(e.target.value)} placeholder="Add a keyword or phrase" />
+            <Button type="submit" variant="outline">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </form>
+
+          {keywords.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Synonyms (optional)</span>
+              <p className="text-xs text-muted-foreground">
+                Other words a retell may use for a keyword, separated by commas. They count as a match.
+              </p>
+              {keywords.map((keyword) => (
+                <div key={keyword} className="flex items-center gap-2">
+                  <span className="w-36 shrink-0 truncate text-sm">{keyword}</span>
+                  <Input
+                    value={synonymText[keyword] ?? ""}
+                    onChange={(e) => setSynonymText((prev) => ({ ...prev, [keyword]: e.target.value }))}
+                    placeholder="e.g. bicycle, cycle"
+                    aria-label={`Synonyms for ${keyword}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {suggestions.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium flex items-center gap-2">
+                  <Sparkles className="h-4 w-4" />
+                  Suggested
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => suggestions.forEach(addKeyword)}>
+                  Add all
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map((keyword) => (
+                  <Badge key={keyword} variant="outline" className="text-xs cursor-pointer" asChild>
+                    <button type="button" onClick={() => addKeyword(keyword)}>
+                      + {keyword}
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dialogue Turns (optional)</CardTitle>
+          <CardDescription>
+            Split the story into speaker turns to read it in several voices. Use "narrator" for the narrator&apos;s
+            lines; the turns must add up to the story text word for word.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {turns && turns.length > 0 ? (
+            <div className="space-y-2">
+              {turns.map((turn, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={turn.speaker}
+                    onChange={(e) => updateTurn(index, { speaker: e.target.value })}
+                    placeholder="narrator"
+                    aria-label={`Turn ${index + 1} speaker`}
+                    className="w-36 shrink-0"
+                  />
+                  <Input
+                    value={turn.text}
+                    onChange={(e) => updateTurn(index, { text: e.target.value })}
+                    placeholder="What they say"
+                    aria-label={`Turn ${index + 1} text`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove turn ${index + 1}`}
+                    onClick={() => setTurns((prev) => (prev ?? []).filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {turns === null && existingStory?.turns
+                ? `Story #${id} keeps its ${existingStory.turns.length} existing turns on export while they still match the text.`
+                : "No turns: the story is read by one voice."}
+            </p>
+          )}
+          {turnsInvalid && (
+            <p className="text-xs text-orange-700">
+              Every turn needs a speaker, and the turns joined together must match the story text before it can be
+              exported.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setTurns((prev) => [...(prev ?? []), { speaker: "narrator", text: "" }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add turn
+            </Button>
+            {existingStory?.turns && (
+              <Button variant="outline" onClick={() => setTurns(existingStory.turns!.map((turn) => ({ ...turn })))}>
+                Load turns from story #{id}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import from Text File</CardTitle>
+          <CardDescription>
+            Upload a numbered list (one "1.Story text…" per line). Ids, keywords and difficulty are generated; stories
+            already in the bank are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="story-import" className="flex items-center gap-2">
+              <FileUp className="h-4 w-4" />
+              Stories file (.txt)
+            </Label>
+            <Input
+              id="story-import"
+              type="file"
+              disabled={!bankLoaded}
+              accept=".txt,text/plain"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) importTextFile(file)
+                e.target.value = ""
+              }}
+            />
+          </div>
+          {importResult && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {importResult.added.length} added, {importResult.skipped.length} already in the bank
+              </p>
+              {importResult.added.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {importResult.added.map((s) => (
+                    <li key={s.id} className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        #{s.id} {s.difficulty}
+                      </Badge>
+                      <span className="truncate text-muted-foreground">{s.text}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => downloadStories(bank)}
+                disabled={!bankLoaded || importResult.added.length === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download {bankFileName}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export</CardTitle>
+          <CardDescription>Copy the entry into {bankFileName}, or download the whole bank with this story merged in.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+          <pre className="p-4 bg-muted rounded-lg text-xs overflow-x-auto whitespace-pre-wrap break-words">{storyJson}</pre>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button
+              variant="secondary"
+              onClick={copyStory}
+              disabled={!bankLoaded || !story.text || turnsInvalid}
+              className="flex-1"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              {copied ? "Copied!" : "Copy Story JSON"}
+            </Button>
+            <Button
+              onClick={downloadBank}
+              disabled={!bankLoaded || !story.text || keywords.length === 0 || turnsInvalid}
+              className="flex-1"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download {bankFileName}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
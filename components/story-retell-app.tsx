@@ -1,184 +1,190 @@
 "use client"
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
-import { Volume2, VolumeX, Mic, MicOff, Play, Pause, RotateCcw, Trophy, Target, Clock } from "lucide-react"
-import { computeMatchScore, computeMatchScoreWithKeywords } from "@/lib/scoring"
-
-// Web Speech API Type Definitions according to W3C specification
-declare global {
-  interface Window {
-    SpeechRecognition: typeof SpeechRecognition
-    webkitSpeechRecognition: typeof SpeechRecognition
-    speechSynthesis: SpeechSynthesis
-  }
-
-  var SpeechRecognition: {
-    new (): SpeechRecognition
-  }
-
-  var webkitSpeechRecognition: {
-    new (): SpeechRecognition
-  }
-}
-
-interface SpeechRecognitionEvent extends Event {
-  readonly resultIndex: number
-  readonly results: SpeechRecognitionResultList
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  readonly error: 'no-speech' | 'aborted' | 'audio-capture' | 'network' | 'not-allowed' | 'service-not-allowed' | 'language-not-supported' | 'phrases-not-supported'
-  readonly message: string
-}
-
-interface SpeechRecognitionResultList {
-  readonly length: number
-  item(index: number): SpeechRecognitionResult
-  [index: number]: SpeechRecognitionResult
-}
-
-interface SpeechRecognitionResult {
-  readonly length: number
-  item(index: number): SpeechRecognitionAlternative
-  [index: number]: SpeechRecognitionAlternative
-  readonly isFinal: boolean
-}
-
-interface SpeechRecognitionAlternative {
-  readonly transcript: string
-  readonly confidence: number
-}
+import { Volume2, VolumeX, Mic, MicOff, Play, Pause, RotateCcw, Trophy, Target, Clock, TrendingUp, Keyboard } from "lucide-react"
+import { Textarea } from "@/components/ui/textarea"
+import { DEFAULT_SCORER_ID, getScorer, listScorers, type ScoreResult } from "@/lib/scorers"
+import AttemptComparison from "@/components/attempt-comparison"
+import TranscriptDiff from "@/components/transcript-diff"
+import RecordingPlayer from "@/components/recording-player"
+import { startAudioRecording, type AudioRecorder } from "@/lib/audio-recorder"
+import { playStoryAudio, type StoryAudioPlayback } from "@/lib/story-audio"
+import { assignSpeakerVoices, startTtsNarration, type TtsNarration } from "@/lib/tts-narration"
+import { PITCH_RANGE, RATE_RANGE, VOLUME_RANGE, previewText, resolveVoice } from "@/lib/voice-settings"
+import { useVoiceSettings } from "@/hooks/use-voice-settings"
+import { DEFAULT_LOCALE, LOCALES, getLocale, isLanguageVoice, isSupportedVoice, sanitizeLocale, voicesForLocale } from "@/lib/locales"
+import { DEFAULT_LANGUAGE, getLanguagePack, listLanguagePacks } from "@/lib/languages"
+import {
+  AUTO_RECOGNITION_PROVIDER_ID,
+  getRecognitionProvider,
+  listRecognitionProviders,
+  type RecognitionError,
+  type RecognitionSession,
+} from "@/lib/recognition"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { usePracticeHistory } from "@/hooks/use-practice-history"
+import { buildReviewStates, pickNextStory, summarizeDue } from "@/lib/scheduler"
+import { DEMOTE_SCORE, DEMOTE_STREAK, PROMOTE_SCORE, computeAdaptiveLevel } from "@/lib/adaptive-difficulty"
+import { useExamProfile } from "@/hooks/use-exam-profile"
+import {
+  CUSTOM_EXAM_PROFILE_ID,
+  EXAM_PROFILES,
+  PREP_RANGE_MS,
+  SPEAK_RANGE_MS,
+  formatSeconds,
+  type BeepMode,
+  type ExamProfile,
+} from "@/lib/exam-profiles"
+import { getStoryBankSource, parseStoryBank, type StoryBank } from "@/lib/story-bank"
+import { sessionsForLanguage, sessionsForMode } from "@/lib/progress"
+import type {
+  PracticeSession,
+  ResponseMode,
+  StoryDifficulty,
+  StoryWithDifficulty,
+  TranscriptSegment,
+} from "@/lib/types"
 
 type Phase = "idle" | "listening" | "prep" | "speaking" | "evaluating" | "result"
 
-type Result = {
-  percentage: number
-  matchedKeywords: string[]
-  missingKeywords: string[]
+type Result = ScoreResult & {
   transcript: string
-  totalKeywords: number
-}
-
-type PracticeSession = {
-  id: string
-  storyIndex: number
-  timestamp: Date
-  score: number
-  duration: number
-}
-
-type VoiceSettings = {
-  selectedVoice: string
-  volume: number
-  rate: number
-}
-
-type StoryDifficulty = "easy" | "medium" | "hard"
-
-type StoryWithDifficulty = {
-  id: number
-  text: string
-  difficulty: StoryDifficulty
-  wordCount: number
-  keyWords: string[]
 }
 
-const STORY_LISTEN_MS = 30_000 // Minimum time, will be extended for longer stories
-const PREP_MS = 5_000
-const SPEAK_MS = 40_000
+const sanitizeProviderId = (stored: unknown) => (typeof stored === "string" ? stored : AUTO_RECOGNITION_PROVIDER_ID)
+const sanitizeStudyMode = (stored: unknown) => stored === true
+const sanitizeResponseMode = (stored: unknown): ResponseMode => (stored === "typed" ? "typed" : "spoken")
 
 export default function StoryRetellApp() {
   const [phase, setPhase] = useState<Phase>("idle")
   const [progress, setProgress] = useState(0)
   const [currentStoryIndex, setCurrentStoryIndex] = useState<number | null>(null)
   const [stories, setStories] = useState<StoryWithDifficulty[]>([])
+  // Language of the loaded story bank; stories are scored and saved to history under it
+  const [storyLanguage, setStoryLanguage] = useState<string | null>(null)
   const [result, setResult] = useState<Result | null>(null)
+  // The saved session behind `result`, so "Try Same Story" knows which story and attempt to retry
+  const [lastSession, setLastSession] = useState<PracticeSession | null>(null)
+  const [lastRecording, setLastRecording] = useState<Blob | null>(null)
+  // History row whose recording player is open
+  const [playingSessionId, setPlayingSessionId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [selectedDifficulty, setSelectedDifficulty] = useState<StoryDifficulty | "all">("all")
-  const [practiceHistory, setPracticeHistory] = useState<PracticeSession[]>([])
-  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>({
-    selectedVoice: '',
-    volume: 1.0,
-    rate: 0.8
-  })
+  const [selectedDifficulty, setSelectedDifficulty] = useState<StoryDifficulty | "all" | "adaptive">("all")
+  const [scorerId, setScorerId] = useState<string>(DEFAULT_SCORER_ID)
+  const [speechSupported, setSpeechSupported] = useState(false)
+  // Recognition providers confirmed to work here for the current locale
+  const [availableProviderIds, setAvailableProviderIds] = useState<string[]>([])
+  const recoSupported = availableProviderIds.length > 0
+  const [preferredResponseMode, setPreferredResponseMode] = useStoredState<ResponseMode>(
+    "story-retell:response-mode",
+    "spoken",
+    sanitizeResponseMode,
+  )
+  // Without any recognition engine the only way to retell is to type
+  const responseMode: ResponseMode = recoSupported ? preferredResponseMode : "typed"
+  const [typedTranscript, setTypedTranscript] = useState("")
+  // Accent used for narration voices, utterance lang and recognition lang alike; its language picks the story bank
+  const [locale, setLocale, localeLoaded] = useStoredState("story-retell:locale", DEFAULT_LOCALE, sanitizeLocale)
+  const language = getLocale(locale).language
+  const { sessions: allSessions, addSession } = usePracticeHistory()
+  // Story ids repeat across banks, so scheduling, levels and recent sessions only cover the current language
+  const practiceHistory = useMemo(
+    () => (storyLanguage ? sessionsForLanguage(allSessions, storyLanguage) : []),
+    [allSessions, storyLanguage],
+  )
+  const reviewStates = useMemo(() => buildReviewStates(practiceHistory), [practiceHistory])
+  // Typed scores run higher than spoken ones, so each mode levels up on its own history
+  const adaptiveLevel = useMemo(
+    () => computeAdaptiveLevel(sessionsForMode(practiceHistory, responseMode)),
+    [practiceHistory, responseMode],
+  )
+  // Difficulty actually practiced: adaptive mode resolves to the learner's current level
+  const activeDifficulty = selectedDifficulty === "adaptive" ? adaptiveLevel.level : selectedDifficulty
+  const storyPool = useMemo(
+    () => (activeDifficulty === "all" ? stories : stories.filter(story => story.difficulty === activeDifficulty)),
+    [stories, activeDifficulty],
+  )
+  const { profile: examProfile, custom: customProfile, selectProfile, updateCustom } = useExamProfile()
   const [timeRemaining, setTimeRemaining] = useState<number>(0)
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([])
+  const { settings: voiceSettings, updateSettings: updateVoiceSettings, missingVoice } = useVoiceSettings(availableVoices)
+  const localeVoices = useMemo(() => voicesForLocale(availableVoices, locale), [availableVoices, locale])
   const [showVoiceSettings, setShowVoiceSettings] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
+  // Sentence being read by TTS during listening (null for recorded narration or outside listening)
+  const [narrationProgress, setNarrationProgress] = useState<{ index: number; total: number } | null>(null)
+  const [studyMode, setStudyMode] = useStoredState("story-retell:study-mode", false, sanitizeStudyMode)
+  const [recognitionProviderId, setRecognitionProviderId] = useStoredState(
+    "story-retell:recognition-provider",
+    AUTO_RECOGNITION_PROVIDER_ID,
+    sanitizeProviderId,
+  )
 
   const ttsCancelRef = useRef<() => void>(() => {})
-  const recognitionRef = useRef<SpeechRecognition | null>(null)
+  // Whatever is reading the story during listening: a narration clip or sentence-by-sentence TTS
+  const narrationRef = useRef<StoryAudioPlayback | TtsNarration | null>(null)
+  const recognitionRef = useRef<RecognitionSession | null>(null)
   const transcriptRef = useRef<string>("")
   const timerRef = useRef<number | null>(null)
   const startTsRef = useRef<number>(0)
   const isSpeakingPhaseRef = useRef<boolean>(false)
-
-  // Categorize story difficulty based on text characteristics
-  const categorizeStoryDifficulty = useCallback((text: string): StoryDifficulty => {
-    const wordCount = text.split(/\s+/).length
-    const sentenceCount = splitIntoSentences(text).length
-    const avgWordsPerSentence = wordCount / sentenceCount
-    
-    // Calculate complexity score based on multiple factors
-    const complexityScore = 
-      (wordCount / 100) * 0.4 +           // Length factor (40%)
-      (avgWordsPerSentence / 20) * 0.3 +  // Sentence complexity (30%)
-      (text.match(/[A-Z]{2,}/g)?.length || 0) * 0.1 + // Proper nouns (10%)
-      (text.match(/[.,!?;:]/g)?.length || 0) / wordCount * 100 * 0.2 // Punctuation density (20%)
-    
-    if (complexityScore < 1.5) return "easy"
-    if (complexityScore < 2.5) return "medium"
-    return "hard"
-  }, [])
-
-  // Enhanced story duration estimation for TTS
-  const estimateStoryDuration = useCallback((text: string): number => {
-    const wordCount = text.split(/\s+/).length
-    const sentenceCount = splitIntoSentences(text).length
-    
-    // More accurate estimation based on actual word count and speech rate
-    const wordsPerMinute = 150 // average speaking rate
-    const speechRate = voiceSettings.rate // Use user's preferred rate
-    const pauseTime = sentenceCount * 0.5 // 0.5 seconds pause per sentence
-    
-    // Calculate base duration
-    const baseDurationSeconds = (wordCount / wordsPerMinute) * 60 / speechRate
-    
-    // Add pause time and buffer
-    const totalDurationSeconds = baseDurationSeconds + pauseTime + 2 // 2 second buffer
-    
-    // Ensure minimum duration for comprehension
-    const minDurationSeconds = Math.max(15, wordCount * 0.3) // At least 0.3 seconds per word
-    
-    return Math.max(totalDurationSeconds * 1000, minDurationSeconds * 1000)
-  }, [voiceSettings.rate])
-
-  // Fetch and parse stories from JSON data file
+  // Response mode of the running session; in typed mode transcriptRef mirrors the textarea
+  const sessionModeRef = useRef<ResponseMode>("spoken")
+  // Rendered copy of sessionModeRef, which can switch to typed mid-session when recognition fails
+  const [sessionMode, setSessionMode] = useState<ResponseMode>("spoken")
+  // Pause state lives in refs too, so the timer interval and recognition handlers see it immediately
+  const pausedRef = useRef<boolean>(false)
+  const pausedAtRef = useRef<number>(0)
+  // Total time spent paused in the current session, subtracted from the measured phase timings
+  const pausedMsRef = useRef<number>(0)
+  // Bumped on every start and cancel so a cancelled run doesn't carry on once its TTS promise settles
+  const runIdRef = useRef<number>(0)
+  // Audio capture for the speaking phase. Times are on the speaking clock (paused time excluded):
+  // the recording starts at recordingOffsetRef, and each final recognition result becomes a timeline segment.
+  const recorderRef = useRef<AudioRecorder | null>(null)
+  const speakClockRef = useRef<() => number>(() => 0)
+  const recordingOffsetRef = useRef<number>(0)
+  const timelineRef = useRef<TranscriptSegment[]>([])
+  const chunkStartRef = useRef<number | null>(null)
+
+  // Fetch and parse the story bank for the selected language
   useEffect(() => {
+    // Wait for the saved locale so a non-English learner doesn't load the English bank first
+    if (!localeLoaded) return
     let cancelled = false
     async function load() {
       try {
-        const response = await fetch("/data/stories.json")
+        const response = await fetch(getStoryBankSource(language).url)
         if (!response.ok) throw new Error("Failed to fetch stories")
         
         const data = await response.json()
         if (cancelled) return
 
         // Use stories directly from JSON with their pre-defined difficulty and keywords
-        const storiesWithDifficulty: StoryWithDifficulty[] = data.stories.map((story: any) => ({
-          id: story.id,
-          text: story.text,
-          difficulty: story.difficulty,
-          wordCount: story.wordCount,
-          keyWords: story.keyWords || []
-        }))
+        let bank: StoryBank
+        try {
+          bank = parseStoryBank(data)
+        } catch (e) {
+          setError(`Failed to load stories. ${e instanceof Error ? e.message : ""}`.trim())
+          console.error("Invalid story bank:", e)
+          return
+        }
         
-        setStories(storiesWithDifficulty)
+        setStories(bank.stories)
+        setStoryLanguage(bank.language)
+        // The last result belongs to the previous bank's story list
+        setPhase("idle")
+        setCurrentStoryIndex(null)
+        setResult(null)
+        setLastSession(null)
+        setError(null)
       } catch (e) {
         setError("Failed to load stories. Please refresh.")
         console.error("Error loading stories:", e)
@@ -188,7 +194,7 @@ export default function StoryRetellApp() {
     return () => {
       cancelled = true
     }
-  }, [])
+  }, [language, localeLoaded])
 
   // Enhanced beep function with better audio handling
   const beep = useCallback((durationMs = 400, frequency = 880, type: 'start' | 'end' = 'start') => {
@@ -243,19 +249,16 @@ export default function StoryRetellApp() {
     }
   }, [])
 
-  // Enhanced voice selection with user preferences
-  const pickVoices = useCallback((): SpeechSynthesisVoice[] => {
+  // Character voices for dialogue stories: a distinct male and female voice of the story's language where available
+  // (the selected accent's voices first), leaving out the narrator's voice so characters don't sound like the narrator
+  const pickVoices = useCallback((narrator: SpeechSynthesisVoice | null): SpeechSynthesisVoice[] => {
     const voices = window.speechSynthesis.getVoices()
     if (!voices || voices.length === 0) return []
-    
-    // If user has selected a specific voice, use it
-    if (voiceSettings.selectedVoice) {
-      const selectedVoice = voices.find(v => v.name === voiceSettings.selectedVoice)
-      if (selectedVoice) return [selectedVoice]
-    }
-    
-    // Try to pick distinct-sounding English voices
-    const en = voices.filter((v) => /en/i.test(v.lang || ""))
+
+    // Try to pick distinct-sounding voices
+    const { language } = getLocale(locale)
+    const candidates = [...voicesForLocale(voices, locale).voices, ...voices.filter((v) => isLanguageVoice(v, language))]
+    const en = candidates.filter((v, i) => v.name !== narrator?.name && candidates.findIndex((c) => c.name === v.name) === i)
     // Heuristic: prefer names mentioning Male/Female; else pick two different vendors
     const male = en.find((v) => /male/i.test(v.name)) || en.find((v) => /David|George|Guy|Daniel|Alex/i.test(v.name))
     const female =
@@ -265,20 +268,20 @@ export default function StoryRetellApp() {
     if (male) chosen.push(male)
     if (female && (!male || female.name !== male.name)) chosen.push(female)
     if (chosen.length < 2) {
-      // fallback to any two distinct English voices
+      // fallback to any two distinct voices of the language
       for (const v of en) {
         if (!chosen.find((c) => c.name === v.name)) chosen.push(v)
         if (chosen.length >= 2) break
       }
     }
     return chosen.slice(0, 2)
-  }, [voiceSettings.selectedVoice])
+  }, [locale])
 
   // Load available voices
   useEffect(() => {
     const loadVoices = () => {
       const voices = window.speechSynthesis.getVoices()
-      setAvailableVoices(voices.filter(v => /en/i.test(v.lang || "")))
+      setAvailableVoices(voices.filter(isSupportedVoice))
     }
     
     loadVoices()
@@ -288,447 +291,389 @@ export default function StoryRetellApp() {
     }
   }, [])
 
-  // Enhanced TTS implementation using correct Web Speech API specification
+  // Sentence-by-sentence TTS (see lib/tts-narration.ts); the current sentence is tracked for study mode.
+  // Dialogue stories read each speaker turn in that speaker's voice.
   const speakStory = useCallback(
-    async (text: string) => {
-      return new Promise<void>((resolve, reject) => {
-        const synthesis = window.speechSynthesis
-        if (!synthesis) {
-          console.error("Speech synthesis not supported")
-          reject(new Error("Speech synthesis not supported"))
-          return
-        }
-
-        // Cancel any ongoing speech according to Web Speech API
-        synthesis.cancel()
-
-        // Create utterance using Web Speech API specification
-        const utterance = new SpeechSynthesisUtterance(text)
-        
-        // Set properties according to Web Speech API spec
-        utterance.lang = "en-US"
-        utterance.rate = voiceSettings.rate
-        utterance.volume = voiceSettings.volume
-        utterance.pitch = 1.0
-
-        // Enhanced voice selection
-        const voices = synthesis.getVoices()
-        if (voices.length > 0) {
-          // Try to find the user's selected voice first
-          let selectedVoice = null
-          if (voiceSettings.selectedVoice) {
-            selectedVoice = voices.find(voice => voice.name === voiceSettings.selectedVoice)
-          }
-          
-          // Fallback to best English voice
-          if (!selectedVoice) {
-            selectedVoice = voices.find(voice => 
-              voice.lang.startsWith('en') && voice.localService
-            ) || voices.find(voice => voice.lang.startsWith('en')) || voices[0]
-          }
-          
-          if (selectedVoice) {
-            utterance.voice = selectedVoice
-          }
-        }
-
-        let isCompleted = false
-
-        // Event handlers according to Web Speech API specification
-        utterance.onstart = (event: SpeechSynthesisEvent) => {
-          // TTS started speaking
-        }
-
-        utterance.onend = (event: SpeechSynthesisEvent) => {
-          if (!isCompleted) {
-            isCompleted = true
-            resolve()
-          }
-        }
-
-        utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
-          if (!isCompleted) {
-            isCompleted = true
-            
-            // Handle specific error types
-            switch (event.error) {
-              case 'not-allowed':
-                reject(new Error('Speech synthesis not allowed - check permissions'))
-                break
-              case 'audio-busy':
-                reject(new Error('Audio device busy - try again'))
-                break
-              case 'audio-hardware':
-                reject(new Error('Audio hardware not available'))
-                break
-              case 'network':
-                reject(new Error('Network error during speech synthesis'))
-                break
-              case 'synthesis-unavailable':
-                reject(new Error('Speech synthesis engine not available'))
-                break
-              case 'synthesis-failed':
-                reject(new Error('Speech synthesis failed'))
-                break
-              case 'language-unavailable':
-                reject(new Error('Language not available for synthesis'))
-                break
-              case 'voice-unavailable':
-                reject(new Error('Selected voice not available'))
-                break
-              case 'text-too-long':
-                reject(new Error('Text too long for synthesis'))
-                break
-              case 'invalid-argument':
-                reject(new Error('Invalid argument for speech synthesis'))
-                break
-              default:
-                reject(new Error(`Speech synthesis error: ${event.error}`))
-            }
-          }
-        }
-
-        utterance.onpause = (event: SpeechSynthesisEvent) => {
-          // TTS paused
-        }
+    async (story: StoryWithDifficulty) => {
+      const synthesis = window.speechSynthesis
+      if (!synthesis) {
+        console.error("Speech synthesis not supported")
+        throw new Error("Speech synthesis not supported")
+      }
 
-        utterance.onresume = (event: SpeechSynthesisEvent) => {
-          // TTS resumed
-        }
+      const voice = resolveVoice(synthesis.getVoices(), voiceSettings, locale)
 
-        utterance.onmark = (event: SpeechSynthesisEvent) => {
-          // TTS mark reached
-        }
+      const parts = story.turns
+        ? assignSpeakerVoices(story.turns, voice, pickVoices(voice))
+        : [{ text: story.text, voice }]
 
-        utterance.onboundary = (event: SpeechSynthesisEvent) => {
-          // TTS boundary reached
-        }
+      const narration = startTtsNarration(parts, {
+        lang: locale,
+        rate: voiceSettings.rate,
+        volume: voiceSettings.volume,
+        pitch: voiceSettings.pitch,
+        onSentence: (index, total) => setNarrationProgress({ index, total }),
+      })
+      narrationRef.current = narration
+      ttsCancelRef.current = () => narration.stop()
+      // Paused before TTS took over (e.g. while the story's audio failed to load): hold it until resumed
+      if (pausedRef.current) narration.pause()
+      setNarrationProgress({ index: 0, total: narration.sentenceCount })
+      try {
+        await narration.done
+      } finally {
+        narrationRef.current = null
+        setNarrationProgress(null)
+      }
+    },
+    [voiceSettings, locale, pickVoices],
+  )
 
-        // Set up cancellation
-        ttsCancelRef.current = () => {
-          if (!isCompleted) {
-            isCompleted = true
-            try {
-              synthesis.cancel()
-              resolve()
-            } catch (error) {
-              resolve()
-            }
-          }
+  // Speaks a sample with the current settings (Test TTS and Preview in Voice Settings)
+  const previewVoice = useCallback(() => {
+    const synthesis = window.speechSynthesis
+    if (!synthesis) {
+      console.error('Speech synthesis not available')
+      return
+    }
+    const voice = resolveVoice(synthesis.getVoices(), voiceSettings, locale)
+    const narration = startTtsNarration([{ text: previewText(getLocale(locale).language), voice }], {
+      lang: locale,
+      rate: voiceSettings.rate,
+      volume: voiceSettings.volume,
+      pitch: voiceSettings.pitch,
+    })
+    narration.done.catch((error) => console.error('Voice preview failed:', error))
+  }, [voiceSettings, locale])
+
+  // Human narration when the story has a recording, otherwise (or if it fails to play) TTS.
+  // Either way ttsCancelRef ends it early, so Skip Audio and Cancel work the same.
+  const narrateStory = useCallback(
+    async (story: StoryWithDifficulty) => {
+      if (story.audioUrl) {
+        const playback = playStoryAudio(story.audioUrl, voiceSettings.volume)
+        narrationRef.current = playback
+        ttsCancelRef.current = () => playback.stop()
+        try {
+          await playback.done
+          return
+        } catch (error) {
+          console.warn("Story audio unavailable, falling back to TTS:", error)
+        } finally {
+          narrationRef.current = null
         }
-
-        // Start speaking using Web Speech API
-        synthesis.speak(utterance)
-      })
+      }
+      await speakStory(story)
     },
-    [voiceSettings],
+    [voiceSettings.volume, speakStory],
   )
 
   // Enhanced timers with accurate progress calculation
-  const startTimedPhase = useCallback((ms: number, onDone: () => void) => {
+  const stopTimer = useCallback(() => {
     if (timerRef.current) {
       window.clearInterval(timerRef.current)
       timerRef.current = null
     }
+  }, [])
+
+  const startTimedPhase = useCallback((ms: number, onDone: () => void) => {
+    stopTimer()
     startTsRef.current = Date.now()
     setProgress(0)
     setTimeRemaining(ms)
     
     timerRef.current = window.setInterval(() => {
+      // Frozen while paused; resumePractice shifts startTsRef forward by the paused time
+      if (pausedRef.current) return
       const elapsed = Date.now() - startTsRef.current
       const remaining = Math.max(0, ms - elapsed)
-      const p = Math.min(100, Math.round((elapsed / ms) * 100))
+      const p = ms > 0 ? Math.min(100, Math.round((elapsed / ms) * 100)) : 100
       
       setProgress(p)
       setTimeRemaining(remaining)
       
       if (elapsed >= ms) {
-        if (timerRef.current) {
-          window.clearInterval(timerRef.current)
-          timerRef.current = null
-        }
+        stopTimer()
         setProgress(100)
         setTimeRemaining(0)
         onDone()
       }
     }, 50) // More frequent updates for smoother progress
+  }, [stopTimer])
+
+  const handleRecognitionError = useCallback((error: RecognitionError) => {
+    const message = recognitionErrorMessage(error)
+    if (!message) return
+    // The engine won't recover this session, so finish the retell by typing rather than scoring silence
+    if (TYPED_FALLBACK_ERRORS.includes(error.code) && isSpeakingPhaseRef.current && sessionModeRef.current === "spoken") {
+      recognitionRef.current?.abort()
+      recognitionRef.current = null
+      recorderRef.current?.discard()
+      recorderRef.current = null
+      sessionModeRef.current = "typed"
+      setSessionMode("typed")
+      setTypedTranscript(transcriptRef.current)
+      setError(`${message}. Type your retell below instead.`)
+      return
+    }
+    setError(message)
   }, [])
 
-  // Enhanced Speech recognition using correct Web Speech API
+  // Appends to transcriptRef; startPractice clears it, so restarts and resumes keep what was already said
   const startRecognition = useCallback(() => {
-    // Only clear transcript on first start, not on restarts
-    if (!recognitionRef.current) {
-      transcriptRef.current = ""
-    }
-    
-    // Use correct Web Speech API according to W3C specification
-    const SpeechRecognitionClass = window.SpeechRecognition || window.webkitSpeechRecognition
-    if (!SpeechRecognitionClass) {
+    const provider = getRecognitionProvider(recognitionProviderId, locale)
+    if (!provider) {
       console.warn('Speech Recognition not supported')
       return null
     }
-    
-    const recognition = new SpeechRecognitionClass()
-    
-    // Configure according to Web Speech API specification
-    recognition.lang = "en-US"
-    recognition.continuous = true
-    recognition.interimResults = true
-    recognition.maxAlternatives = 1
-    
-    // Enhanced result processing for better accuracy
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      let finalChunk = ""
-      let interimChunk = ""
-      
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i]
-        if (result.isFinal) {
-          finalChunk += result[0].transcript + " "
-        } else {
-          interimChunk += result[0].transcript + " "
+
+    const session = provider.start({ lang: locale }, {
+      onResult(text, isFinal) {
+        // Engines give no word timings, so a chunk spans from its first interim result to its final one
+        const now = speakClockRef.current() - recordingOffsetRef.current
+        if (!isFinal) {
+          if (chunkStartRef.current == null) chunkStartRef.current = now
+          return
         }
-      }
-      
-      if (finalChunk) {
-        transcriptRef.current += finalChunk
-      }
-    }
-    
-    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      // Handle specific error types according to W3C spec
-      switch (event.error) {
-        case 'no-speech':
-          // Restart recognition after a brief pause to continue listening
-          if (isSpeakingPhaseRef.current) {
-            setTimeout(() => {
-              try {
-                if (isSpeakingPhaseRef.current && !recognitionRef.current) {
-                  recognition.start()
-                }
-              } catch (error) {
-                // Recognition restart failed - this is normal if already running
-              }
-            }, 100)
-          }
-          break
-        case 'audio-capture':
-          setError('Audio capture failed - check microphone permissions')
-          break
-        case 'not-allowed':
-          setError('Speech recognition not allowed - check permissions')
-          break
-        case 'service-not-allowed':
-          setError('Speech service not allowed - check browser settings')
-          break
-        case 'language-not-supported':
-          setError('Language not supported by speech recognition')
-          break
-        case 'phrases-not-supported':
-          setError('Phrases not supported by speech recognition')
-          break
-        case 'network':
-          setError('Network error during speech recognition')
-          break
-        case 'aborted':
-          // Speech recognition aborted - this is normal when stopping
-          break
-        default:
-          setError(`Speech recognition error: ${event.error}`)
-      }
-    }
-    
-    recognition.onend = () => {
-      // Restart recognition if it ends before our timer is done and we're still in speaking phase
-      // This ensures continuous listening throughout the 40-second period
-      if (isSpeakingPhaseRef.current) {
-        // Add a small delay to prevent rapid restart loops
-        setTimeout(() => {
-          try {
-            if (isSpeakingPhaseRef.current && !recognitionRef.current) {
-              recognition.start()
-            }
-          } catch (error) {
-            // Recognition restart failed - this is normal if already running
-          }
-        }, 100)
-      }
-    }
-    
-    recognition.onstart = () => {
-      // Speech recognition started successfully
-    }
-    
-    recognition.onsoundstart = () => {
-      // Sound detected - user is making noise
-    }
-    
-    recognition.onspeechstart = () => {
-      // Speech detected - user is speaking
-    }
-    
-    recognition.onspeechend = () => {
-      // Speech ended - user stopped speaking
-    }
-    
-    recognition.onsoundend = () => {
-      // Sound ended - user stopped making noise
-    }
-    
-    recognition.onaudioend = () => {
-      // Audio capture ended
-    }
-    
-    recognition.onaudiostart = () => {
-      // Audio capture started
-    }
-    
-    try {
-      recognition.start()
-      recognitionRef.current = recognition
-    } catch (error) {
-      setError('Failed to start speech recognition. Please check your microphone permissions.')
-    }
-    return recognition
+        transcriptRef.current += text
+        const previousEnd = timelineRef.current[timelineRef.current.length - 1]?.endMs ?? 0
+        timelineRef.current.push({
+          text: text.trim(),
+          startMs: Math.max(previousEnd, chunkStartRef.current ?? previousEnd),
+          endMs: Math.max(previousEnd, now),
+        })
+        chunkStartRef.current = null
+      },
+      onError: handleRecognitionError,
+    })
+    recognitionRef.current = session
+    return session
+  }, [recognitionProviderId, locale, handleRecognitionError])
+
+  // stop() rather than abort() so results still in flight are still delivered
+  const suspendRecognition = useCallback(() => {
+    recognitionRef.current?.stop()
+    recognitionRef.current = null
   }, [])
 
   const stopRecognition = useCallback(() => {
-    try {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort() // Use abort() instead of stop() for immediate termination
-      }
-    } catch {
-      // ignore
-    } finally {
-      recognitionRef.current = null
-    }
+    recognitionRef.current?.abort() // abort() rather than stop() for immediate termination
+    recognitionRef.current = null
   }, [])
 
-  // Orchestrate the full flow
-  const startPractice = useCallback(async () => {
+  // Orchestrate the full flow. With `retry`, the same story is replayed and the attempt is linked to it.
+  const startPractice = useCallback(async (retry?: PracticeSession) => {
     setError(null)
     setResult(null)
+    setLastSession(null)
+    setLastRecording(null)
+    pausedRef.current = false
+    pausedMsRef.current = 0
+    setIsPaused(false)
+    setTypedTranscript("")
+    const runId = ++runIdRef.current
     if (stories.length === 0) {
       setError("Stories not loaded yet. Please wait a moment.")
       return
     }
-    // Filter stories by selected difficulty
-    const filteredStories = selectedDifficulty === "all" 
-      ? stories 
-      : stories.filter(story => story.difficulty === selectedDifficulty)
-    
-    if (filteredStories.length === 0) {
-      setError(`No stories available for ${selectedDifficulty} difficulty level.`)
-      return
-    }
+    let selectedStory: StoryWithDifficulty
+    if (retry) {
+      const retryStory = stories.find(story => story.id === retry.storyId)
+      if (!retryStory) {
+        setError(`Story #${retry.storyId} is no longer in the story bank.`)
+        return
+      }
+      selectedStory = retryStory
+    } else {
+      if (storyPool.length === 0) {
+        setError(`No stories available for ${activeDifficulty} difficulty level.`)
+        return
+      }
 
-    // Pick a random story from filtered set
-    const idx = Math.floor(Math.random() * filteredStories.length)
-    const selectedStory = filteredStories[idx]
+      // Spaced repetition: weak and never-attempted stories come first
+      selectedStory = pickNextStory(storyPool, reviewStates)!
+    }
     const originalIndex = stories.findIndex(story => story.id === selectedStory.id)
     setCurrentStoryIndex(originalIndex)
 
     // Phase: listening
     setPhase("listening")
-    const story = selectedStory.text
+    // Wall-clock time since `startedAt`, minus any time spent paused since then
+    const activeSince = (startedAt: number, pausedBefore: number) =>
+      Date.now() - startedAt - (pausedMsRef.current - pausedBefore)
+    const listenStartedAt = Date.now()
+    const listenPausedBefore = pausedMsRef.current
 
     // Start TTS and handle completion properly
     try {
-      await speakStory(story)
-      // TTS finished - immediately move to prep phase
-      setPhase("prep")
-      startTimedPhase(PREP_MS, () => {
-        beep(500, 880, 'start') // speak beep - higher pitch for start
-        // speaking
-        setPhase("speaking")
-        isSpeakingPhaseRef.current = true
-        startRecognition()
-        startTimedPhase(SPEAK_MS, () => {
-          beep(500, 660, 'end') // end beep - lower pitch for end
-          stopRecognition()
-          isSpeakingPhaseRef.current = false
-          // evaluate
-          setPhase("evaluating")
-          const tr = (transcriptRef.current || "").trim()
-          const currentStory = currentStoryIndex !== null && currentStoryIndex >= 0 ? stories[currentStoryIndex] : null
-          
-          // Use predefined keywords from stories.json if available, otherwise fallback to computed keywords
-          const storyKeywords = currentStory?.keyWords || []
-          console.log('Story ID:', currentStory?.id)
-          console.log('Predefined keywords:', storyKeywords)
-          console.log('User transcript:', tr)
-          
-          const score = storyKeywords.length > 0 
-            ? computeMatchScoreWithKeywords(story, tr, storyKeywords)
-            : computeMatchScore(story, tr)
-            
-          console.log('Score result:', score)
-            
-          const sessionResult = {
-            percentage: score.percentage,
-            matchedKeywords: score.matchedKeywords,
-            missingKeywords: score.missingKeywords,
-            transcript: tr,
-            totalKeywords: score.totalKeywords,
-          }
-          setResult(sessionResult)
-          
-          // Save to practice history
-          const session: PracticeSession = {
-            id: Date.now().toString(),
-            storyIndex: idx,
-            timestamp: new Date(),
-            score: score.percentage,
-            duration: SPEAK_MS
-          }
-          setPracticeHistory((prev: PracticeSession[]) => [session, ...prev.slice(0, 9)]) // Keep last 10 sessions
-          setPhase("result")
-        })
-      })
+      await narrateStory(selectedStory)
     } catch (error) {
-      console.error('TTS failed:', error)
       // Even if TTS fails, move to prep phase
-      setPhase("prep")
-      startTimedPhase(PREP_MS, () => {
-        beep(500, 880, 'start')
-        setPhase("speaking")
-        isSpeakingPhaseRef.current = true
+      console.error('TTS failed:', error)
+    }
+    if (runIdRef.current !== runId) return
+    const listenMs = activeSince(listenStartedAt, listenPausedBefore)
+
+    // TTS finished - immediately move to prep phase
+    // Timings and scoring are fixed for the whole attempt, even if the profile is changed mid-session
+    const profile = examProfile
+    const mode = responseMode
+    const sessionLanguage = storyLanguage ?? DEFAULT_LANGUAGE
+    sessionModeRef.current = mode
+    setSessionMode(mode)
+    setPhase("prep")
+    const prepStartedAt = Date.now()
+    const prepPausedBefore = pausedMsRef.current
+    startTimedPhase(profile.prepMs, () => {
+      const prepMs = activeSince(prepStartedAt, prepPausedBefore)
+      if (profile.beeps !== "none") beep(500, 880, 'start') // speak beep - higher pitch for start
+      // speaking
+      setPhase("speaking")
+      isSpeakingPhaseRef.current = true
+      transcriptRef.current = ""
+      timelineRef.current = []
+      chunkStartRef.current = null
+      const speakStartedAt = Date.now()
+      const speakPausedBefore = pausedMsRef.current
+      speakClockRef.current = () => activeSince(speakStartedAt, speakPausedBefore)
+      recordingOffsetRef.current = 0
+      // Set when the speaking timer runs out; pausing doesn't end the phase
+      let speakEnded = false
+      if (mode === "spoken") {
         startRecognition()
-        startTimedPhase(SPEAK_MS, () => {
-          beep(500, 660, 'end')
-          stopRecognition()
-          isSpeakingPhaseRef.current = false
-          setPhase("evaluating")
-          const tr = (transcriptRef.current || "").trim()
-          const currentStory = currentStoryIndex !== null && currentStoryIndex >= 0 ? stories[currentStoryIndex] : null
-          
-          const storyKeywords = currentStory?.keyWords || []
-          const score = storyKeywords.length > 0 
-            ? computeMatchScoreWithKeywords(story, tr, storyKeywords)
-            : computeMatchScore(story, tr)
-            
-          const sessionResult = {
-            percentage: score.percentage,
-            matchedKeywords: score.matchedKeywords,
-            missingKeywords: score.missingKeywords,
-            transcript: tr,
-            totalKeywords: score.totalKeywords,
-          }
-          setResult(sessionResult)
-          
-          const session: PracticeSession = {
-            id: Date.now().toString(),
-            storyIndex: idx,
-            timestamp: new Date(),
-            score: score.percentage,
-            duration: SPEAK_MS
-          }
-          setPracticeHistory((prev: PracticeSession[]) => [session, ...prev.slice(0, 9)])
-          setPhase("result")
+        // Recording is best-effort: the session goes ahead without it if the microphone can't be opened
+        startAudioRecording()
+          .then((recorder) => {
+            // Too late once the attempt was cancelled, the phase is over or recognition fell back to typing.
+            // A pause (e.g. while the permission prompt was open) keeps the recorder, paused.
+            if (runIdRef.current !== runId || speakEnded || sessionModeRef.current !== "spoken") {
+              recorder.discard()
+              return
+            }
+            recordingOffsetRef.current = speakClockRef.current()
+            recorderRef.current = recorder
+            if (pausedRef.current) recorder.pause()
+          })
+          .catch((error) => console.warn("Audio recording unavailable:", error))
+      }
+      startTimedPhase(profile.speakMs, async () => {
+        const speakMs = activeSince(speakStartedAt, speakPausedBefore)
+        if (profile.beeps === "start-and-end") beep(500, 660, 'end') // end beep - lower pitch for end
+        speakEnded = true
+        stopRecognition()
+        isSpeakingPhaseRef.current = false
+        const recorder = recorderRef.current
+        recorderRef.current = null
+        // evaluate
+        setPhase("evaluating")
+        const tr = (transcriptRef.current || "").trim()
+        const audio = recorder ? await recorder.stop() : null
+        if (runIdRef.current !== runId) return
+
+        const score = getScorer(scorerId).score({
+          story: selectedStory,
+          transcript: tr,
+          weights: profile.weights,
+          language: sessionLanguage,
         })
+        const sessionResult: Result = { ...score, transcript: tr }
+        setResult(sessionResult)
+
+        // Save to practice history
+        const session: PracticeSession = {
+          id: Date.now().toString(),
+          storyId: selectedStory.id,
+          difficulty: selectedStory.difficulty,
+          timestamp: new Date(),
+          score: score.percentage,
+          transcript: tr,
+          breakdown: score,
+          timings: { listenMs, prepMs, speakMs },
+          voiceSettings: { ...voiceSettings },
+          examProfileId: profile.id,
+          retryOf: retry?.id ?? null,
+          // Typed when recognition failed and the retell was finished by typing
+          responseMode: sessionModeRef.current,
+          language: sessionLanguage,
+          recording: audio
+            ? {
+                mimeType: audio.type,
+                durationMs: Math.max(0, speakMs - recordingOffsetRef.current),
+                segments: timelineRef.current,
+              }
+            : null,
+        }
+        addSession(session, audio)
+        setLastSession(session)
+        setLastRecording(audio)
+        setPhase("result")
       })
+    })
+  }, [stories, storyLanguage, storyPool, activeDifficulty, reviewStates, scorerId, voiceSettings, examProfile, responseMode, startTimedPhase, beep, narrateStory, startRecognition, stopRecognition, addSession])
+
+  const pausePractice = useCallback(() => {
+    if (pausedRef.current || (phase !== "listening" && phase !== "prep" && phase !== "speaking")) return
+    pausedRef.current = true
+    pausedAtRef.current = Date.now()
+    setIsPaused(true)
+    if (phase === "listening") {
+      narrationRef.current?.pause()
+    } else if (phase === "speaking") {
+      // Keep the restart-on-end handlers from bringing recognition back while paused
+      isSpeakingPhaseRef.current = false
+      suspendRecognition()
+      recorderRef.current?.pause()
     }
-  }, [stories, selectedDifficulty, startTimedPhase, beep, speakStory, startRecognition, stopRecognition])
+  }, [phase, suspendRecognition])
+
+  const resumePractice = useCallback(() => {
+    if (!pausedRef.current) return
+    const pausedFor = Date.now() - pausedAtRef.current
+    pausedMsRef.current += pausedFor
+    startTsRef.current += pausedFor
+    pausedRef.current = false
+    setIsPaused(false)
+    if (phase === "listening") {
+      narrationRef.current?.resume()
+    } else if (phase === "speaking") {
+      isSpeakingPhaseRef.current = true
+      if (sessionModeRef.current === "spoken") startRecognition()
+      recorderRef.current?.resume()
+    }
+  }, [phase, startRecognition])
+
+  // Study mode only: step back a sentence while TTS reads the story
+  const replayPreviousSentence = useCallback(() => {
+    const narration = narrationRef.current
+    if (phase !== "listening" || pausedRef.current || !narration || !("replayPrevious" in narration)) return
+    narration.replayPrevious()
+  }, [phase])
+
+  const togglePause = useCallback(() => {
+    if (pausedRef.current) resumePractice()
+    else pausePractice()
+  }, [pausePractice, resumePractice])
+
+  const cancelPractice = useCallback(() => {
+    runIdRef.current++
+    stopTimer()
+    isSpeakingPhaseRef.current = false
+    pausedRef.current = false
+    setIsPaused(false)
+    try {
+      ttsCancelRef.current?.()
+    } catch {}
+    try {
+      stopRecognition()
+    } catch {}
+    recorderRef.current?.discard()
+    recorderRef.current = null
+    setPhase("idle")
+    setProgress(0)
+    setResult(null)
+    setCurrentStoryIndex(null)
+    setTimeRemaining(0)
+  }, [stopTimer, stopRecognition])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -739,23 +684,23 @@ export default function StoryRetellApp() {
       try {
         stopRecognition()
       } catch {}
+      recorderRef.current?.discard()
       if (timerRef.current) window.clearInterval(timerRef.current)
     }
   }, [stopRecognition])
 
+  const previousAttempt = useMemo(
+    () => (lastSession?.retryOf ? practiceHistory.find(s => s.id === lastSession.retryOf) ?? null : null),
+    [lastSession, practiceHistory],
+  )
+
+  const dueSummary = useMemo(() => summarizeDue(storyPool, reviewStates), [storyPool, reviewStates])
+
   const currentStoryNumber = useMemo(() => {
     if (currentStoryIndex == null) return null
     return currentStoryIndex + 1
   }, [currentStoryIndex])
 
-  const currentStoryDuration = useMemo(() => {
-    if (currentStoryIndex == null || !stories[currentStoryIndex]) return STORY_LISTEN_MS
-    return estimateStoryDuration(stories[currentStoryIndex].text)
-  }, [currentStoryIndex, stories, estimateStoryDuration])
-
-  const [speechSupported, setSpeechSupported] = useState(false)
-  const [recoSupported, setRecoSupported] = useState(false)
-
   useEffect(() => {
     // TTS support detection using Web Speech API specification
     const checkTTS = () => {
@@ -820,22 +765,32 @@ export default function StoryRetellApp() {
       }
     }
 
-    // Check Speech Recognition support according to Web Speech API
-    const checkSTT = () => {
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
-    setRecoSupported(!!SpeechRecognition)
-      
-      if (SpeechRecognition) {
-        console.log("Speech Recognition available")
+    // Delay TTS test to allow page to fully load
+    setTimeout(checkTTS, 1000)
+  }, [])
+
+  // Any available recognition provider will do; the user can pick one in Voice Settings.
+  // Providers that download their engine are only counted once their files are found for this locale.
+  useEffect(() => {
+    let cancelled = false
+    const checkSTT = async () => {
+      const providers = listRecognitionProviders()
+      const available = await Promise.all(providers.map((provider) => provider.checkAvailability(locale)))
+      if (cancelled) return
+      const supported = providers.filter((_, index) => available[index])
+      setAvailableProviderIds(supported.map((provider) => provider.id))
+
+      if (supported.length > 0) {
+        console.log("Speech Recognition available:", supported.map((provider) => provider.id).join(", "))
       } else {
         console.log("Speech Recognition not supported")
       }
     }
-
-    // Delay TTS test to allow page to fully load
-    setTimeout(checkTTS, 1000)
     checkSTT()
-  }, [])
+    return () => {
+      cancelled = true
+    }
+  }, [locale])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -855,33 +810,31 @@ export default function StoryRetellApp() {
         case 'Escape':
           if (phase === "listening" || phase === "prep" || phase === "speaking") {
             event.preventDefault()
-            try {
-              ttsCancelRef.current?.()
-            } catch {}
-            try {
-              stopRecognition()
-            } catch {}
-              setPhase("idle")
-              setProgress(0)
-              setResult(null)
-              setCurrentStoryIndex(null)
-              setTimeRemaining(0)
+            cancelPractice()
+          }
+          break
+        case 'p':
+          if (phase === "listening" || phase === "prep" || phase === "speaking") {
+            event.preventDefault()
+            togglePause()
           }
           break
         case 's':
-          if (phase === "listening") {
+          if (phase === "listening" && !pausedRef.current) {
             event.preventDefault()
             ttsCancelRef.current?.()
           }
           break
+        case 'b':
+          if (studyMode && phase === "listening") {
+            event.preventDefault()
+            replayPreviousSentence()
+          }
+          break
         case 'r':
-          if (phase === "result") {
+          if (phase === "result" && lastSession) {
             event.preventDefault()
-              setPhase("idle")
-              setProgress(0)
-              setResult(null)
-              setCurrentStoryIndex(null)
-              setTimeRemaining(0)
+            startPractice(lastSession)
           }
           break
         case 'n':
@@ -891,7 +844,6 @@ export default function StoryRetellApp() {
             setPhase("idle")
             setProgress(0)
             setTimeRemaining(0)
-            // setIsPaused(false) // Removed pause functionality
           }
           break
       }
@@ -899,7 +851,7 @@ export default function StoryRetellApp() {
 
     window.addEventListener('keydown', handleKeyPress)
     return () => window.removeEventListener('keydown', handleKeyPress)
-  }, [phase, startPractice, stopRecognition])
+  }, [phase, lastSession, studyMode, startPractice, cancelPractice, togglePause, replayPreviousSentence])
   // Helper function to format time
   const formatTime = (ms: number) => {
     const seconds = Math.ceil(ms / 1000)
@@ -939,8 +891,9 @@ export default function StoryRetellApp() {
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <Badge variant={phase === "idle" ? "secondary" : phase === "result" ? "default" : "destructive"}>
-                  {phaseLabel(phase)}
+                  {phaseLabel(phase, examProfile, phase === "speaking" ? sessionMode : responseMode)}
                 </Badge>
+                {isPaused && <Badge variant="outline">Paused</Badge>}
           </div>
               {timeRemaining > 0 && (
                 <div className="text-2xl font-mono font-bold text-primary">
@@ -954,6 +907,11 @@ export default function StoryRetellApp() {
               <div className="text-lg font-semibold">
                 {currentStoryNumber ? `Story #${currentStoryNumber}` : "Not Selected"}
               </div>
+              {phase === "listening" && narrationProgress && (
+                <div className="text-sm text-muted-foreground">
+                  Sentence {narrationProgress.index + 1} of {narrationProgress.total}
+                </div>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -961,6 +919,11 @@ export default function StoryRetellApp() {
               <div className="text-lg font-semibold">
                 {practiceHistory.length} completed
               </div>
+              {phase === "idle" && stories.length > 0 && (
+                <div className="text-sm text-muted-foreground">
+                  {dueSummary.due} due today · {dueSummary.unseen} not yet practiced
+                </div>
+              )}
             </div>
           </div>
 
@@ -968,7 +931,7 @@ export default function StoryRetellApp() {
           <div className="space-y-3">
             <div className="text-sm font-medium">Story Difficulty</div>
             <div className="flex flex-wrap gap-2">
-              {(["all", "easy", "medium", "hard"] as const).map((diff) => (
+              {(["all", "easy", "medium", "hard", "adaptive"] as const).map((diff) => (
                 <Button
                   key={diff}
                   variant={selectedDifficulty === diff ? "default" : "outline"}
@@ -977,7 +940,7 @@ export default function StoryRetellApp() {
                   disabled={phase === "listening" || phase === "prep" || phase === "speaking" || phase === "evaluating"}
                 >
                   {diff === "all" ? "All Stories" : `${diff.charAt(0).toUpperCase() + diff.slice(1)}`}
-                  {diff !== "all" && (
+                  {diff !== "all" && diff !== "adaptive" && (
                     <Badge variant="secondary" className="ml-2 text-xs">
                       {stories.filter(s => s.difficulty === diff).length}
                     </Badge>
@@ -985,6 +948,140 @@ export default function StoryRetellApp() {
                 </Button>
               ))}
             </div>
+            {selectedDifficulty === "adaptive" && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="default" className="capitalize">Level: {adaptiveLevel.level}</Badge>
+                <span>
+                  {adaptiveLevel.untilPromotion == null
+                    ? "Top level reached."
+                    : `${adaptiveLevel.untilPromotion} more score${adaptiveLevel.untilPromotion === 1 ? "" : "s"} of ${PROMOTE_SCORE}%+ in a row to move up.`}
+                  {adaptiveLevel.lowStreak > 0 && adaptiveLevel.level !== "easy" &&
+                    ` ${DEMOTE_STREAK - adaptiveLevel.lowStreak} more below ${DEMOTE_SCORE}% moves you down.`}
+                </span>
+                {adaptiveLevel.lastChange && (
+                  <span>
+                    ({adaptiveLevel.lastChange.direction === "up" ? "Moved up" : "Moved down"} from{" "}
+                    {adaptiveLevel.lastChange.from} on {adaptiveLevel.lastChange.at.toLocaleDateString()})
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Scorer Selector */}
+          <div className="space-y-3">
+            <div className="text-sm font-medium">Scoring Mode</div>
+            <div className="flex flex-wrap gap-2">
+              {listScorers().map((scorer) => (
+                <Button
+                  key={scorer.id}
+                  variant={scorerId === scorer.id ? "default" : "outline"}
+                  size="sm"
+                  title={scorer.description}
+                  onClick={() => setScorerId(scorer.id)}
+                  disabled={phase === "listening" || phase === "prep" || phase === "speaking" || phase === "evaluating"}
+                >
+                  {scorer.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{getScorer(scorerId).description}</p>
+          </div>
+
+          {/* Response Mode Selector */}
+          <div className="space-y-3">
+            <div className="text-sm font-medium">Retell By</div>
+            <div className="flex flex-wrap gap-2">
+              {(["spoken", "typed"] as const).map((mode) => (
+                <Button
+                  key={mode}
+                  variant={responseMode === mode ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setPreferredResponseMode(mode)}
+                  disabled={
+                    (mode === "spoken" && !recoSupported) ||
+                    phase === "listening" || phase === "prep" || phase === "speaking" || phase === "evaluating"
+                  }
+                >
+                  {mode === "spoken" ? <Mic className="h-4 w-4" /> : <Keyboard className="h-4 w-4" />}
+                  {mode === "spoken" ? "Speaking" : "Typing"}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {responseMode === "spoken"
+                ? "Retell out loud; your speech is transcribed and scored."
+                : "Type your retell in the same time limit. Typed scores are tracked separately from spoken ones."}
+            </p>
+          </div>
+
+          {/* Exam Profile Selector */}
+          <div className="space-y-3">
+            <div className="text-sm font-medium">Exam Profile</div>
+            <div className="flex flex-wrap gap-2">
+              {[...EXAM_PROFILES, customProfile].map((profile) => (
+                <Button
+                  key={profile.id}
+                  variant={examProfile.id === profile.id ? "default" : "outline"}
+                  size="sm"
+                  title={profile.description}
+                  onClick={() => selectProfile(profile.id)}
+                  disabled={phase === "listening" || phase === "prep" || phase === "speaking" || phase === "evaluating"}
+                >
+                  {profile.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {examProfile.description} Prep {formatSeconds(examProfile.prepMs)}, speak {formatSeconds(examProfile.speakMs)}.
+            </p>
+            {examProfile.id === CUSTOM_EXAM_PROFILE_ID && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-3 border rounded-md">
+                <div>
+                  <label className="text-sm font-medium">
+                    Prep Time: {formatSeconds(customProfile.prepMs)}
+                  </label>
+                  <input
+                    type="range"
+                    min={PREP_RANGE_MS.min}
+                    max={PREP_RANGE_MS.max}
+                    step={1000}
+                    value={customProfile.prepMs}
+                    onChange={(e) => updateCustom({ prepMs: parseInt(e.target.value, 10) })}
+                    disabled={phase !== "idle" && phase !== "result"}
+                    className="w-full mt-1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">
+                    Speaking Time: {formatSeconds(customProfile.speakMs)}
+                  </label>
+                  <input
+                    type="range"
+                    min={SPEAK_RANGE_MS.min}
+                    max={SPEAK_RANGE_MS.max}
+                    step={5000}
+                    value={customProfile.speakMs}
+                    onChange={(e) => updateCustom({ speakMs: parseInt(e.target.value, 10) })}
+                    disabled={phase !== "idle" && phase !== "result"}
+                    className="w-full mt-1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Beeps</label>
+                  <select
+                    value={customProfile.beeps}
+                    onChange={(e) => updateCustom({ beeps: e.target.value as BeepMode })}
+                    disabled={phase !== "idle" && phase !== "result"}
+                    className="w-full mt-1 p-2 border rounded-md"
+                  >
+                    <option value="start-and-end">Start and end</option>
+                    <option value="start-only">Start only</option>
+                    <option value="none">None</option>
+                  </select>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Progress Bar */}
@@ -1011,7 +1108,7 @@ export default function StoryRetellApp() {
       {!recoSupported && (
             <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
         <p className="text-sm text-destructive">
-          Speech recognition not supported. We will still record time but cannot transcribe your retell automatically.
+          Speech recognition not supported. You can still practice by typing your retell when the speaking phase starts.
         </p>
             </div>
           )}
@@ -1021,10 +1118,30 @@ export default function StoryRetellApp() {
             </div>
           )}
 
+          {/* Typed retell */}
+          {phase === "speaking" && sessionMode === "typed" && (
+            <div className="space-y-2">
+              <label htmlFor="typed-retell" className="text-sm font-medium">Type your retell</label>
+              <Textarea
+                id="typed-retell"
+                autoFocus
+                rows={6}
+                value={typedTranscript}
+                onChange={(e) => {
+                  transcriptRef.current = e.target.value
+                  setTypedTranscript(e.target.value)
+                }}
+                disabled={isPaused}
+                placeholder="Retell the story in your own words…"
+              />
+              <p className="text-xs text-muted-foreground">Your text is scored when the timer runs out.</p>
+            </div>
+          )}
+
           {/* Control Buttons */}
           <div className="flex flex-wrap items-center gap-3">
         <Button
-          onClick={startPractice}
+          onClick={() => startPractice()}
           disabled={phase === "listening" || phase === "prep" || phase === "speaking" || phase === "evaluating"}
               size="lg"
         >
@@ -1032,29 +1149,27 @@ export default function StoryRetellApp() {
         </Button>
 
         {phase === "listening" && (
-              <Button variant="outline" onClick={() => ttsCancelRef.current?.()} size="lg">
+              <Button variant="outline" onClick={() => ttsCancelRef.current?.()} disabled={isPaused} size="lg">
             Skip Audio
           </Button>
         )}
+
+        {phase === "listening" && studyMode && narrationProgress && (
+          <Button variant="outline" onClick={replayPreviousSentence} disabled={isPaused} size="lg">
+            <RotateCcw className="h-4 w-4" />
+            Previous Sentence
+          </Button>
+        )}
+
+        {(phase === "listening" || phase === "prep" || phase === "speaking") && (
+          <Button variant="outline" onClick={togglePause} size="lg">
+            {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            {isPaused ? "Resume" : "Pause"}
+          </Button>
+        )}
             
         {(phase === "listening" || phase === "prep" || phase === "speaking") && (
-          <Button
-            variant="outline"
-            onClick={() => {
-              try {
-                ttsCancelRef.current?.()
-              } catch {}
-              try {
-                stopRecognition()
-              } catch {}
-              setPhase("idle")
-              setProgress(0)
-              setResult(null)
-              setCurrentStoryIndex(null)
-              setTimeRemaining(0)
-            }}
-                size="lg"
-          >
+          <Button variant="outline" onClick={cancelPractice} size="lg">
             Cancel
           </Button>
         )}
@@ -1070,38 +1185,8 @@ export default function StoryRetellApp() {
 
             <Button
               variant="ghost"
-              onClick={() => {
-                const synthesis = window.speechSynthesis
-                if (synthesis) {
-                  console.log('Test TTS button clicked')
-                  
-                  // Create utterance using Web Speech API specification
-                  const utterance = new SpeechSynthesisUtterance("Test test, this is a test of the text to speech system.")
-                  utterance.lang = "en-US"
-                  utterance.rate = 0.8
-                  utterance.volume = 0.7
-                  utterance.pitch = 1.0
-                  
-                  // Event handlers according to Web Speech API
-                  utterance.onstart = (event: SpeechSynthesisEvent) => {
-                    console.log('Test TTS started:', event.name)
-                  }
-                  
-                  utterance.onend = (event: SpeechSynthesisEvent) => {
-                    console.log('Test TTS ended:', event.name)
-                  }
-                  
-                  utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
-                    console.error('Test TTS error:', event.error, event.name)
-                  }
-                  
-                  // Cancel any ongoing speech and start new one
-                  synthesis.cancel()
-                  synthesis.speak(utterance)
-                } else {
-                  console.error('Speech synthesis not available')
-                }
-              }}
+              onClick={previewVoice}
+              disabled={phase !== "idle" && phase !== "result"}
               size="lg"
             >
               <Volume2 className="h-4 w-4" />
@@ -1116,20 +1201,61 @@ export default function StoryRetellApp() {
                 <CardTitle className="text-lg">Voice Settings</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium">Language & Accent</label>
+                  <select
+                    value={locale}
+                    onChange={(e) => {
+                      const next = e.target.value
+                      setLocale(next)
+                      // A voice from another accent would override the new one, so go back to auto-select
+                      const selected = voiceSettings.selectedVoice
+                      if (selected && !voicesForLocale(availableVoices, next).voices.some(v => v.name === selected)) {
+                        updateVoiceSettings({ selectedVoice: "" })
+                      }
+                    }}
+                    disabled={phase !== "idle" && phase !== "result"}
+                    className="w-full mt-1 p-2 border rounded-md"
+                  >
+                    {listLanguagePacks().map((pack) => (
+                      <optgroup key={pack.id} label={pack.label}>
+                        {LOCALES.filter((option) => option.language === pack.id).map((option) => (
+                          <option key={option.id} value={option.id}>
+                            {option.label} ({option.id})
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Sets the story bank, the voices offered below, how stories are read and which accent speech recognition expects.
+                  </p>
+                </div>
+
               <div>
                   <label className="text-sm font-medium">Voice</label>
                   <select
                     value={voiceSettings.selectedVoice}
-                    onChange={(e) => setVoiceSettings((prev: VoiceSettings) => ({ ...prev, selectedVoice: e.target.value }))}
+                    onChange={(e) => updateVoiceSettings({ selectedVoice: e.target.value })}
                     className="w-full mt-1 p-2 border rounded-md"
                   >
                     <option value="">Auto-select (Recommended)</option>
-                    {availableVoices.map((voice: SpeechSynthesisVoice) => (
+                    {localeVoices.voices.map((voice: SpeechSynthesisVoice) => (
                       <option key={voice.name} value={voice.name}>
                         {voice.name} ({voice.lang})
                       </option>
                     ))}
                   </select>
+                  {!localeVoices.exact && availableVoices.length > 0 && (
+                    <p className="text-xs text-orange-700 mt-1">
+                      No {getLocale(locale).label} voices are installed, so all {getLanguagePack(language).label} voices are listed.
+                    </p>
+                  )}
+                  {missingVoice && (
+                    <p className="text-xs text-orange-700 mt-1">
+                      Your saved voice "{missingVoice}" isn't available on this device, so a voice is picked automatically.
+                    </p>
+                  )}
               </div>
                 
               <div>
@@ -1138,11 +1264,11 @@ export default function StoryRetellApp() {
                   </label>
                   <input
                     type="range"
-                    min="0.5"
-                    max="1.5"
+                    min={RATE_RANGE.min}
+                    max={RATE_RANGE.max}
                     step="0.1"
                     value={voiceSettings.rate}
-                    onChange={(e) => setVoiceSettings((prev: VoiceSettings) => ({ ...prev, rate: parseFloat(e.target.value) }))}
+                    onChange={(e) => updateVoiceSettings({ rate: parseFloat(e.target.value) })}
                     className="w-full mt-1"
                   />
                 </div>
@@ -1153,14 +1279,80 @@ export default function StoryRetellApp() {
                   </label>
                   <input
                     type="range"
-                    min="0.1"
-                    max="1.0"
+                    min={VOLUME_RANGE.min}
+                    max={VOLUME_RANGE.max}
                     step="0.1"
                     value={voiceSettings.volume}
-                    onChange={(e) => setVoiceSettings((prev: VoiceSettings) => ({ ...prev, volume: parseFloat(e.target.value) }))}
+                    onChange={(e) => updateVoiceSettings({ volume: parseFloat(e.target.value) })}
+                    className="w-full mt-1"
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium">
+                    Pitch: {voiceSettings.pitch.toFixed(1)}
+                  </label>
+                  <input
+                    type="range"
+                    min={PITCH_RANGE.min}
+                    max={PITCH_RANGE.max}
+                    step="0.1"
+                    value={voiceSettings.pitch}
+                    onChange={(e) => updateVoiceSettings({ pitch: parseFloat(e.target.value) })}
                     className="w-full mt-1"
                   />
                 </div>
+
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={previewVoice}
+                    disabled={phase !== "idle" && phase !== "result"}
+                  >
+                    <Volume2 className="h-4 w-4" />
+                    Preview
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    Settings are saved for this device's set of voices.
+                  </span>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={studyMode}
+                      onChange={(e) => setStudyMode(e.target.checked)}
+                    />
+                    Study mode
+                  </label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    While a story is read aloud, go back to the previous sentence with the button or the B key.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium">Speech Recognition</label>
+                  <select
+                    value={recognitionProviderId}
+                    onChange={(e) => setRecognitionProviderId(e.target.value)}
+                    disabled={phase !== "idle" && phase !== "result"}
+                    className="w-full mt-1 p-2 border rounded-md"
+                  >
+                    <option value={AUTO_RECOGNITION_PROVIDER_ID}>Auto (browser when online, offline engine otherwise)</option>
+                    {listRecognitionProviders().map((provider) => (
+                      <option key={provider.id} value={provider.id} disabled={!availableProviderIds.includes(provider.id)}>
+                        {provider.label}
+                        {availableProviderIds.includes(provider.id) ? "" : " (not available in this browser)"}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {getRecognitionProvider(recognitionProviderId, locale)?.description ??
+                      "No speech recognition engine is available in this browser."}
+                  </p>
+                </div>
               </CardContent>
             </Card>
           )}
@@ -1201,43 +1393,72 @@ export default function StoryRetellApp() {
             {/* Enhanced Analysis */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
               <div className="text-center p-4 bg-muted rounded-lg">
-                <div className="text-2xl font-bold text-primary">{(result as any).exactMatches || result.matchedKeywords.length}</div>
+                <div className="text-2xl font-bold text-primary">{result.exactMatches}</div>
                 <div className="text-sm text-muted-foreground">Exact Matches</div>
                 <div className="text-xs text-muted-foreground">perfect keywords</div>
               </div>
               <div className="text-center p-4 bg-muted rounded-lg">
-                <div className="text-2xl font-bold text-orange-600">{(result as any).partialMatchesCount || 0}</div>
+                <div className="text-2xl font-bold text-orange-600">{result.partialMatchesCount}</div>
                 <div className="text-sm text-muted-foreground">Partial Matches</div>
                 <div className="text-xs text-muted-foreground">close attempts</div>
               </div>
               <div className="text-center p-4 bg-muted rounded-lg">
-                <div className="text-2xl font-bold text-primary">{(result as any).totalAttempted || result.matchedKeywords.length}</div>
+                <div className="text-2xl font-bold text-primary">{result.totalAttempted}</div>
                 <div className="text-sm text-muted-foreground">Total Attempted</div>
                 <div className="text-xs text-muted-foreground">out of {result.totalKeywords}</div>
               </div>
               <div className="text-center p-4 bg-muted rounded-lg">
-                <div className="text-2xl font-bold text-green-600">{(result as any).accuracyRate || Math.round((result.matchedKeywords.length / result.totalKeywords) * 100)}%</div>
+                <div className="text-2xl font-bold text-green-600">{result.accuracyRate}%</div>
                 <div className="text-sm text-muted-foreground">Accuracy Rate</div>
                 <div className="text-xs text-muted-foreground">keyword coverage</div>
               </div>
             </div>
 
+            {/* Event Order (sequence-aware scoring) */}
+            {result.sequence && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="text-center p-4 bg-muted rounded-lg">
+                  <div className="text-2xl font-bold text-primary">{result.sequence.keywordCoverageScore}%</div>
+                  <div className="text-sm text-muted-foreground">Keyword Coverage</div>
+                  <div className="text-xs text-muted-foreground">content recalled</div>
+                </div>
+                <div className="text-center p-4 bg-muted rounded-lg">
+                  <div className="text-2xl font-bold text-primary">{result.sequence.eventOrderScore}%</div>
+                  <div className="text-sm text-muted-foreground">Event Order</div>
+                  <div className="text-xs text-muted-foreground">{result.sequence.eventsInOrder} of {result.sequence.eventsRecalled} recalled events in sequence</div>
+                </div>
+                <div className="text-center p-4 bg-muted rounded-lg">
+                  <div className="text-2xl font-bold text-primary">{result.sequence.eventsRecalled} / {result.sequence.totalEvents}</div>
+                  <div className="text-sm text-muted-foreground">Events Recalled</div>
+                  <div className="text-xs text-muted-foreground">story sentences retold</div>
+                </div>
+              </div>
+            )}
+
             {/* Keywords Analysis */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="space-y-3">
                 <div className="flex items-center gap-2">
                   <Badge variant="default" className="text-sm">
-                    {(result as any).exactMatches || result.matchedKeywords.length} / {result.totalKeywords}
+                    {result.exactMatches} / {result.totalKeywords}
                   </Badge>
                   <span className="font-medium">Exact Matches</span>
                 </div>
                 <div className="flex flex-wrap gap-1">
                   {result.matchedKeywords.length > 0 ? (
-                    result.matchedKeywords.map((keyword: string, index: number) => (
-                      <Badge key={index} variant="secondary" className="text-xs">
-                        {keyword}
-                      </Badge>
-                    ))
+                    result.matchedKeywords.map((keyword: string, index: number) => {
+                      const synonym = result.synonymMatches.find(match => match.keyword === keyword)
+                      return synonym ? (
+                        <Badge key={index} variant="outline" className="text-xs" title="Synonym match">
+                          {keyword} ← {synonym.heard}
+                          <span className="text-muted-foreground">(synonym match)</span>
+                        </Badge>
+                      ) : (
+                        <Badge key={index} variant="secondary" className="text-xs">
+                          {keyword}
+                        </Badge>
+                      )
+                    })
                   ) : (
                     <span className="text-muted-foreground text-sm">No exact matches</span>
                   )}
@@ -1247,17 +1468,26 @@ export default function StoryRetellApp() {
               <div className="space-y-3">
                 <div className="flex items-center gap-2">
                   <Badge variant="outline" className="text-sm bg-orange-50 text-orange-700 border-orange-200">
-                    {(result as any).partialMatchesCount || 0}
+                    {result.partialMatchesCount}
                   </Badge>
                   <span className="font-medium">Partial Matches</span>
                 </div>
                 <div className="flex flex-wrap gap-1">
-                  {(result as any).partialMatches && (result as any).partialMatches.length > 0 ? (
-                    (result as any).partialMatches.map((keyword: string, index: number) => (
-                      <Badge key={index} variant="outline" className="text-xs bg-orange-50 text-orange-700 border-orange-200">
-                        {keyword}
-                      </Badge>
-                    ))
+                  {result.partialMatches.length > 0 ? (
+                    result.partialMatches.map((keyword: string, index: number) => {
+                      const phrase = result.partialPhrases.find(p => p.keyword === keyword)
+                      return (
+                        <Badge
+                          key={index}
+                          variant="outline"
+                          className="text-xs bg-orange-50 text-orange-700 border-orange-200"
+                          title={phrase ? `Heard: ${phrase.matchedWords.join(", ")}` : undefined}
+                        >
+                          {keyword}
+                          {phrase && <span className="opacity-70">({phrase.matchedWords.length}/{phrase.totalWords} words)</span>}
+                        </Badge>
+                      )
+                    })
                   ) : (
                     <span className="text-muted-foreground text-sm">No partial matches</span>
                   )}
@@ -1312,9 +1542,9 @@ export default function StoryRetellApp() {
                     </div>
                   )}
                 </div>
-                {(result as any).partialMatchesCount > 0 && (
+                {result.partialMatchesCount > 0 && (
                   <div className="mt-2 text-sm text-orange-700">
-                    <strong>Tip:</strong> You were close on {(result as any).partialMatchesCount} keyword{(result as any).partialMatchesCount > 1 ? 's' : ''}. 
+                    <strong>Tip:</strong> You were close on {result.partialMatchesCount} keyword{result.partialMatchesCount > 1 ? 's' : ''}. 
                     Try to be more precise with your word choices.
                   </div>
                 )}
@@ -1323,30 +1553,56 @@ export default function StoryRetellApp() {
 
             <Separator />
 
-            {/* Transcript */}
-            <div className="space-y-3">
-              <div className="font-medium flex items-center gap-2">
-                <Mic className="h-4 w-4" />
-                Your Retelling
-              </div>
-              <div className="p-4 bg-muted rounded-lg">
-                <p className="text-sm text-muted-foreground">
-                  {result.transcript || "No transcript captured. Make sure your microphone is working and try speaking more clearly."}
-                </p>
+            {/* Recorded Retelling */}
+            {lastSession?.recording && (
+              <>
+                <div className="space-y-3">
+                  <div className="font-medium flex items-center gap-2">
+                    <Play className="h-4 w-4" />
+                    Listen to Your Retelling
+                  </div>
+                  <RecordingPlayer sessionId={lastSession.id} recording={lastSession.recording} audio={lastRecording} />
+                </div>
+                <Separator />
+              </>
+            )}
+
+            {/* Retry Comparison */}
+            {lastSession && previousAttempt && (
+              <>
+                <AttemptComparison previous={previousAttempt} current={lastSession} />
+                <Separator />
+              </>
+            )}
+
+            {/* Transcript, side by side with the story */}
+            {currentStoryIndex != null && stories[currentStoryIndex] ? (
+              <TranscriptDiff
+                story={stories[currentStoryIndex].text}
+                transcript={result.transcript}
+                result={result}
+                language={storyLanguage ?? undefined}
+              />
+            ) : (
+              <div className="space-y-3">
+                <div className="font-medium flex items-center gap-2">
+                  <Mic className="h-4 w-4" />
+                  Your Retelling
+                </div>
+                <div className="p-4 bg-muted rounded-lg">
+                  <p className="text-sm text-muted-foreground">
+                    {result.transcript || "No transcript captured. Make sure your microphone is working and try speaking more clearly."}
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
               <Button
                 variant="secondary"
-                onClick={() => {
-                  setPhase("idle")
-                  setProgress(0)
-                  setResult(null)
-                  setCurrentStoryIndex(null)
-                  setTimeRemaining(0)
-                }}
+                onClick={() => lastSession && startPractice(lastSession)}
+                disabled={!lastSession}
                 className="flex-1"
                 size="lg"
               >
@@ -1379,33 +1635,70 @@ export default function StoryRetellApp() {
             <CardDescription>
               Track your progress over time
             </CardDescription>
+            <CardAction>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/story-retell/progress">
+                  <TrendingUp className="h-4 w-4" />
+                  View Progress
+                </Link>
+              </Button>
+            </CardAction>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {practiceHistory.slice(0, 5).map((session: PracticeSession, index: number) => {
-                const story = stories[session.storyIndex]
+              {practiceHistory.slice(0, 5).map((session: PracticeSession) => {
+                const story = stories.find(s => s.id === session.storyId)
                 return (
-                  <div key={session.id} className="flex items-center justify-between p-3 border rounded-lg">
-                    <div className="flex items-center gap-3">
-                      <div className="text-lg font-mono">
-                        #{session.storyIndex + 1}
-          </div>
-                      <div>
-                        <div className="text-sm text-muted-foreground">
-                          {session.timestamp.toLocaleDateString()} at {session.timestamp.toLocaleTimeString()}
+                  <div key={session.id} className="p-3 border rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="text-lg font-mono">
+                          #{session.storyId}
+            </div>
+                        <div>
+                          <div className="text-sm text-muted-foreground">
+                            {session.timestamp.toLocaleDateString()} at {session.timestamp.toLocaleTimeString()}
+                          </div>
+                          {story && (
+                            <Badge variant="outline" className="text-xs mt-1">
+                              {story.difficulty} ({story.wordCount} words)
+                            </Badge>
+                          )}
+                          {session.retryOf && (
+                            <Badge variant="secondary" className="text-xs mt-1 ml-1">
+                              <RotateCcw className="h-3 w-3" />
+                              Retry
+                            </Badge>
+                          )}
+                          {session.responseMode === "typed" && (
+                            <Badge variant="secondary" className="text-xs mt-1 ml-1">
+                              <Keyboard className="h-3 w-3" />
+                              Typed
+                            </Badge>
+                          )}
                         </div>
-                        {story && (
-                          <Badge variant="outline" className="text-xs mt-1">
-                            {story.difficulty} ({story.wordCount} words)
-                          </Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {session.recording && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPlayingSessionId(playingSessionId === session.id ? null : session.id)}
+                            aria-label={playingSessionId === session.id ? "Hide recording" : "Play recording"}
+                          >
+                            {playingSessionId === session.id ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
                         )}
+                        <Badge 
+                          variant={session.score >= 80 ? "default" : session.score >= 60 ? "secondary" : "destructive"}
+                        >
+                          {session.score}%
+                        </Badge>
                       </div>
                     </div>
-                    <Badge 
-                      variant={session.score >= 80 ? "default" : session.score >= 60 ? "secondary" : "destructive"}
-                    >
-                      {session.score}%
-                    </Badge>
+                    {session.recording && playingSessionId === session.id && (
+                      <RecordingPlayer sessionId={session.id} recording={session.recording} />
+                    )}
                   </div>
                 )
               })}
@@ -1419,11 +1712,14 @@ export default function StoryRetellApp() {
         <CardContent className="pt-6">
           <div className="text-sm text-muted-foreground space-y-4">
             <div>
-              <p><strong>Versant English Speaking Test Practice:</strong></p>
+              <p><strong>{examProfile.label} Speaking Practice:</strong></p>
               <ul className="list-disc list-inside space-y-1 ml-4">
                 <li>Listen carefully to the story (no text is shown, just like the real test)</li>
-                <li>Use the 5-second prep time to organize your thoughts</li>
-                <li>Retell the story in your own words when you hear the beep</li>
+                <li>Use the {formatSeconds(examProfile.prepMs)} prep time to organize your thoughts</li>
+                <li>
+                  Retell the story in your own words{examProfile.beeps === "none" ? " when the timer starts" : " when you hear the beep"} -
+                  you have {formatSeconds(examProfile.speakMs)}
+                </li>
                 <li>Focus on meaningful content words (not connecting words like "and", "the", "it")</li>
                 <li>Get instant feedback on your content word accuracy</li>
               </ul>
@@ -1440,10 +1736,18 @@ export default function StoryRetellApp() {
                   <span>Escape</span>
                   <span>Cancel</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>P</span>
+                  <span>Pause / resume</span>
+                </div>
                 <div className="flex justify-between">
                   <span>S</span>
                   <span>Skip audio</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>B</span>
+                  <span>Previous sentence (study mode)</span>
+                </div>
                 <div className="flex justify-between">
                   <span>R</span>
                   <span>Retry same story</span>
@@ -1467,16 +1771,51 @@ export default function StoryRetellApp() {
 
 // Utils
 
-function phaseLabel(phase: Phase, duration?: number) {
+// Errors after which recognition won't work for the rest of the session (including a denied or missing microphone)
+const TYPED_FALLBACK_ERRORS: RecognitionError["code"][] = [
+  "engine-unavailable",
+  "network",
+  "service-not-allowed",
+  "not-allowed",
+  "audio-capture",
+]
+
+// null for codes that are a normal part of listening
+function recognitionErrorMessage(error: RecognitionError): string | null {
+  switch (error.code) {
+    case 'audio-capture':
+      return 'Audio capture failed - check microphone permissions'
+    case 'not-allowed':
+      return 'Speech recognition not allowed - check permissions'
+    case 'service-not-allowed':
+      return 'Speech service not allowed - check browser settings'
+    case 'language-not-supported':
+      return 'Language not supported by speech recognition'
+    case 'phrases-not-supported':
+      return 'Phrases not supported by speech recognition'
+    case 'network':
+      return 'Network error during speech recognition - try the offline engine in Voice Settings'
+    case 'engine-unavailable':
+      return `${error.message}. Choose another recognition engine in Voice Settings`
+    case 'no-speech':
+    case 'aborted':
+      // Normal while waiting for speech or when stopping
+      return null
+    default:
+      return `Speech recognition error: ${error.message}`
+  }
+}
+
+function phaseLabel(phase: Phase, profile: ExamProfile, mode: ResponseMode) {
   switch (phase) {
     case "idle":
       return "Ready"
     case "listening":
       return "Listening to Story"
     case "prep":
-      return "Prepare (5s)"
+      return `Prepare (${formatSeconds(profile.prepMs)})`
     case "speaking":
-      return "Speak / Retell (40s)"
+      return `${mode === "typed" ? "Type" : "Speak"} / Retell (${formatSeconds(profile.speakMs)})`
     case "evaluating":
       return "Evaluating…"
     case "result":
@@ -1484,45 +1823,4 @@ function phaseLabel(phase: Phase, duration?: number) {
   }
 }
 
-function splitIntoSentences(text: string): string[] {
-  const cleaned = (text || "").replace(/\s+/g, " ").trim()
-  if (!cleaned) return []
-
-  // More robust sentence splitting for the story data format
-  // Split on periods, exclamation marks, question marks followed by space or end of string
-  const sentences = cleaned.split(/(?<=[.!?])(?=\s|$)/)
-
-  // Filter out empty strings and trim each sentence
-  return sentences
-    .map(s => s.trim())
-    .filter(s => s.length > 0)
-    .filter(s => !/^\d+\.$/.test(s)) // Remove standalone numbers like "1." "2." etc.
-}
-
-function splitIntoReadableChunks(text: string, maxLength: number = 150): string[] {
-  const sentences = splitIntoSentences(text)
-  const chunks: string[] = []
-  let currentChunk = ""
-
-  for (const sentence of sentences) {
-    // If adding this sentence would make chunk too long, start new chunk
-    if (currentChunk && (currentChunk.length + sentence.length + 1) > maxLength) {
-      if (currentChunk.trim()) {
-        chunks.push(currentChunk.trim())
-      }
-      currentChunk = sentence
-    } else {
-      // Add sentence to current chunk
-      currentChunk += (currentChunk ? " " : "") + sentence
-    }
-  }
-
-  // Add the last chunk if it exists
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim())
-  }
-
-  // If no chunks were created (shouldn't happen), return original text as single chunk
-  return chunks.length > 0 ? chunks : [text]
-}
 
@@ -0,0 +1,109 @@
+"use client"
+
+import { useMemo } from "react"
+import { BookOpen, Mic } from "lucide-react"
+import { highlightKeywords, type HighlightSegment, type KeywordStatus } from "@/lib/scoring"
+import type { ScoreResult } from "@/lib/scorers"
+
+type TranscriptDiffProps = {
+  story: string
+  transcript: string
+  result: ScoreResult
+  // Language pack the result was scored with, so words are matched the same way
+  language?: string
+}
+
+const STATUS_CLASSES: Record<KeywordStatus, string> = {
+  matched: "bg-green-100 text-green-800 rounded-sm px-0.5",
+  partial: "bg-orange-100 text-orange-800 rounded-sm px-0.5",
+  missing: "line-through decoration-2 text-destructive",
+}
+
+const STATUS_LABELS: Record<KeywordStatus, string> = {
+  matched: "Matched",
+  partial: "Partial",
+  missing: "Missed",
+}
+
+// Story text next to the learner's retelling, with keywords highlighted where they occur in each
+export default function TranscriptDiff({ story, transcript, result, language }: TranscriptDiffProps) {
+  const storySegments = useMemo(
+    () =>
+      highlightKeywords(story, [
+        ...result.matchedKeywords.map((keyword) => ({ keyword, status: "matched" as const })),
+        ...result.partialMatches.map((keyword) => ({ keyword, status: "partial" as const })),
+        ...result.missingKeywords.map((keyword) => ({ keyword, status: "missing" as const })),
+      ], language),
+    [story, result, language],
+  )
+
+  // In the retelling, synonyms stand in for their keyword and partial phrases only show the words that were said
+  const transcriptSegments = useMemo(
+    () =>
+      highlightKeywords(transcript, [
+        ...result.matchedKeywords.map((keyword) => ({ keyword, status: "matched" as const })),
+        ...result.synonymMatches.map(({ heard }) => ({ keyword: heard, status: "matched" as const })),
+        ...result.partialMatches
+          .filter((keyword) => !result.partialPhrases.some((phrase) => phrase.keyword === keyword))
+          .map((keyword) => ({ keyword, status: "partial" as const })),
+        ...result.partialPhrases.flatMap(({ matchedWords }) =>
+          matchedWords.map((keyword) => ({ keyword, status: "partial" as const })),
+        ),
+      ], language),
+    [transcript, result, language],
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {(Object.keys(STATUS_LABELS) as KeywordStatus[]).map((status) => (
+          <span key={status} className={STATUS_CLASSES[status]}>
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <div className="font-medium flex items-center gap-2">
+            <BookOpen className="h-4 w-4" />
+            Original Story
+          </div>
+          <div className="p-4 bg-muted rounded-lg text-sm leading-relaxed">
+            <HighlightedText segments={storySegments} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <div className="font-medium flex items-center gap-2">
+            <Mic className="h-4 w-4" />
+            Your Retelling
+          </div>
+          <div className="p-4 bg-muted rounded-lg text-sm leading-relaxed">
+            {transcript ? (
+              <HighlightedText segments={transcriptSegments} />
+            ) : (
+              <span className="text-muted-foreground">
+                No transcript captured. Make sure your microphone is working and try speaking more clearly.
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <p>
+      {segments.map((segment, index) =>
+        segment.status ? (
+          <span key={index} className={STATUS_CLASSES[segment.status]} title={segment.keyword ?? undefined}>
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import {
+  DEFAULT_CUSTOM_PROFILE,
+  DEFAULT_EXAM_PROFILE_ID,
+  getExamProfile,
+  sanitizeCustomProfile,
+  type ExamProfile,
+} from "@/lib/exam-profiles"
+
+const STORAGE_KEY = "story-retell:exam-profile"
+
+type StoredExamProfile = {
+  profileId: string
+  custom: ExamProfile
+}
+
+function readStored(): StoredExamProfile | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw)
+    return {
+      profileId: typeof parsed.profileId === "string" ? parsed.profileId : DEFAULT_EXAM_PROFILE_ID,
+      custom: sanitizeCustomProfile(parsed.custom),
+    }
+  } catch (error) {
+    console.warn("Failed to read exam profile settings:", error)
+    return null
+  }
+}
+
+// Selected exam profile plus the user's custom timings, persisted in localStorage
+export function useExamProfile() {
+  const [profileId, setProfileId] = useState(DEFAULT_EXAM_PROFILE_ID)
+  const [custom, setCustom] = useState<ExamProfile>(DEFAULT_CUSTOM_PROFILE)
+  const [loaded, setLoaded] = useState(false)
+
+  // Read after mount so server and first client render agree
+  useEffect(() => {
+    const stored = readStored()
+    if (stored) {
+      setProfileId(stored.profileId)
+      setCustom(stored.custom)
+    }
+    setLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (!loaded) return
+    try {
+      const stored: StoredExamProfile = { profileId, custom }
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+    } catch (error) {
+      console.warn("Failed to persist exam profile settings:", error)
+    }
+  }, [loaded, profileId, custom])
+
+  const updateCustom = useCallback((changes: Partial<Pick<ExamProfile, "prepMs" | "speakMs" | "beeps">>) => {
+    setCustom((prev) => sanitizeCustomProfile({ ...prev, ...changes }))
+  }, [])
+
+  const profile = useMemo(() => getExamProfile(profileId, custom), [profileId, custom])
+
+  return { profile, custom, selectProfile: setProfileId, updateCustom }
+}
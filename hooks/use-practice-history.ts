@@ -0,0 +1,51 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { clearSessions, loadSessions, saveRecording, saveSession } from "@/lib/history-store"
+import type { PracticeSession } from "@/lib/types"
+
+// Practice history backed by IndexedDB. Falls back to in-memory state when storage is unavailable.
+export function usePracticeHistory() {
+  const [sessions, setSessions] = useState<PracticeSession[]>([])
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadSessions()
+      .then((stored) => {
+        if (cancelled) return
+        // Keep anything recorded while the initial load was in flight
+        setSessions((prev) => [...prev, ...stored.filter((s) => !prev.some((p) => p.id === s.id))])
+      })
+      .catch((error) => {
+        console.warn("Failed to load practice history:", error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const addSession = useCallback(async (session: PracticeSession, audio?: Blob | null) => {
+    setSessions((prev) => [session, ...prev])
+    try {
+      await saveSession(session)
+      if (audio) await saveRecording(session.id, audio)
+    } catch (error) {
+      console.warn("Failed to persist practice session:", error)
+    }
+  }, [])
+
+  const clearHistory = useCallback(async () => {
+    setSessions([])
+    try {
+      await clearSessions()
+    } catch (error) {
+      console.warn("Failed to clear practice history:", error)
+    }
+  }, [])
+
+  return { sessions, loaded, addSession, clearHistory }
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+// useState mirrored to localStorage. `sanitize` turns whatever was stored (possibly from an older build)
+// into a valid value. The stored value is read after mount so server and first client render agree.
+export function useStoredState<T>(key: string, initial: T, sanitize: (stored: unknown) => T) {
+  const [value, setValue] = useState<T>(initial)
+  const [loaded, setLoaded] = useState(false)
+  // Latest sanitizer, so callers may pass an inline function without re-reading storage every render
+  const sanitizeRef = useRef(sanitize)
+  sanitizeRef.current = sanitize
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(key)
+      if (raw != null) setValue(sanitizeRef.current(JSON.parse(raw)))
+    } catch (error) {
+      console.warn(`Failed to read ${key}:`, error)
+    }
+    setLoaded(true)
+  }, [key])
+
+  useEffect(() => {
+    if (!loaded) return
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+    } catch (error) {
+      console.warn(`Failed to persist ${key}:`, error)
+    }
+  }, [key, loaded, value])
+
+  return [value, setValue, loaded] as const
+}
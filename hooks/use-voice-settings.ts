@@ -0,0 +1,65 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { useStoredState } from "@/hooks/use-stored-state"
+import { DEFAULT_VOICE_SETTINGS, sanitizeVoiceSettings, voiceSetKey } from "@/lib/voice-settings"
+import type { VoiceSettings } from "@/lib/types"
+
+const STORAGE_KEY = "story-retell:voice-profiles"
+
+// Settings per voice set (see voiceSetKey), plus the set they were last changed on
+type StoredVoiceProfiles = {
+  lastKey: string | null
+  profiles: Record<string, VoiceSettings>
+}
+
+const EMPTY_PROFILES: StoredVoiceProfiles = { lastKey: null, profiles: {} }
+
+function sanitizeProfiles(value: unknown): StoredVoiceProfiles {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<StoredVoiceProfiles>
+  const profiles: Record<string, VoiceSettings> = {}
+  if (stored.profiles && typeof stored.profiles === "object") {
+    for (const [key, settings] of Object.entries(stored.profiles)) {
+      profiles[key] = sanitizeVoiceSettings(settings)
+    }
+  }
+  const lastKey = typeof stored.lastKey === "string" && stored.lastKey in profiles ? stored.lastKey : null
+  return { lastKey, profiles }
+}
+
+// Voice settings remembered per device. A device seen for the first time starts from the settings last
+// used elsewhere; a saved voice that isn't installed here falls back to auto-select and is reported
+// as `missingVoice` (the saved choice is kept in case the voice comes back).
+export function useVoiceSettings(voices: SpeechSynthesisVoice[]) {
+  const [stored, setStored] = useStoredState(STORAGE_KEY, EMPTY_PROFILES, sanitizeProfiles)
+  // null until the browser has reported its voices
+  const deviceKey = useMemo(() => (voices.length > 0 ? voiceSetKey(voices) : null), [voices])
+
+  const saved =
+    (deviceKey && stored.profiles[deviceKey]) || (stored.lastKey && stored.profiles[stored.lastKey]) || DEFAULT_VOICE_SETTINGS
+
+  const missingVoice =
+    saved.selectedVoice && voices.length > 0 && !voices.some((voice) => voice.name === saved.selectedVoice)
+      ? saved.selectedVoice
+      : null
+
+  const settings = useMemo<VoiceSettings>(
+    () => (missingVoice ? { ...saved, selectedVoice: "" } : saved),
+    [saved, missingVoice],
+  )
+
+  const updateSettings = useCallback(
+    (changes: Partial<VoiceSettings>) => {
+      setStored((prev) => {
+        const key = deviceKey ?? prev.lastKey ?? "default"
+        return {
+          lastKey: key,
+          profiles: { ...prev.profiles, [key]: sanitizeVoiceSettings({ ...settings, ...changes }) },
+        }
+      })
+    },
+    [deviceKey, settings, setStored],
+  )
+
+  return { settings, updateSettings, missingVoice }
+}
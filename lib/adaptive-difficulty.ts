@@ -0,0 +1,62 @@
+import { DIFFICULTIES } from "@/lib/progress"
+import type { PracticeSession, StoryDifficulty } from "@/lib/types"
+
+// Adaptive mode: the level is replayed from the practice history every time, so it follows the
+// stored scores rather than a separate saved setting. Only attempts at the current level count.
+
+export const PROMOTE_SCORE = 80
+export const PROMOTE_STREAK = 3
+export const DEMOTE_SCORE = 50
+export const DEMOTE_STREAK = 2
+
+export type LevelChange = {
+  from: StoryDifficulty
+  to: StoryDifficulty
+  direction: "up" | "down"
+  at: Date
+}
+
+export type AdaptiveLevel = {
+  level: StoryDifficulty
+  // Consecutive attempts at this level scoring at least PROMOTE_SCORE / below DEMOTE_SCORE
+  highStreak: number
+  lowStreak: number
+  // High scores still needed to move up (null at the top level)
+  untilPromotion: number | null
+  lastChange: LevelChange | null
+}
+
+export function computeAdaptiveLevel(sessions: PracticeSession[]): AdaptiveLevel {
+  const ordered = [...sessions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  let index = 0
+  let highStreak = 0
+  let lowStreak = 0
+  let lastChange: LevelChange | null = null
+
+  const moveTo = (next: number, at: Date) => {
+    lastChange = { from: DIFFICULTIES[index], to: DIFFICULTIES[next], direction: next > index ? "up" : "down", at }
+    index = next
+    highStreak = 0
+    lowStreak = 0
+  }
+
+  for (const session of ordered) {
+    if (session.difficulty !== DIFFICULTIES[index]) continue
+    highStreak = session.score >= PROMOTE_SCORE ? highStreak + 1 : 0
+    lowStreak = session.score < DEMOTE_SCORE ? lowStreak + 1 : 0
+
+    if (highStreak >= PROMOTE_STREAK && index < DIFFICULTIES.length - 1) {
+      moveTo(index + 1, session.timestamp)
+    } else if (lowStreak >= DEMOTE_STREAK && index > 0) {
+      moveTo(index - 1, session.timestamp)
+    }
+  }
+
+  return {
+    level: DIFFICULTIES[index],
+    highStreak,
+    lowStreak,
+    untilPromotion: index < DIFFICULTIES.length - 1 ? PROMOTE_STREAK - highStreak : null,
+    lastChange,
+  }
+}
@@ -0,0 +1,74 @@
+// Microphone capture for the speaking phase, so learners can hear their own retelling afterwards
+
+export type AudioRecorder = {
+  pause(): void
+  resume(): void
+  // Resolves with the recorded clip, or null when nothing was captured
+  stop(): Promise<Blob | null>
+  // Stop without keeping anything (cancelled session)
+  discard(): void
+}
+
+// Preferred containers, best first; the browser default is used when none of these is supported
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus"]
+
+export function isAudioRecordingSupported(): boolean {
+  return typeof window !== "undefined" && "MediaRecorder" in window && !!navigator.mediaDevices?.getUserMedia
+}
+
+export async function startAudioRecording(): Promise<AudioRecorder> {
+  if (!isAudioRecordingSupported()) {
+    throw new Error("Audio recording is not supported in this browser")
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+  const chunks: Blob[] = []
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+
+  // Release the microphone so the browser's recording indicator goes away
+  const releaseStream = () => stream.getTracks().forEach((track) => track.stop())
+
+  recorder.start()
+
+  return {
+    pause() {
+      if (recorder.state === "recording") recorder.pause()
+    },
+    resume() {
+      if (recorder.state === "paused") recorder.resume()
+    },
+    stop() {
+      return new Promise<Blob | null>((resolve) => {
+        if (recorder.state === "inactive") {
+          releaseStream()
+          resolve(chunks.length ? new Blob(chunks, { type: recorder.mimeType }) : null)
+          return
+        }
+        recorder.onstop = () => {
+          releaseStream()
+          resolve(chunks.length ? new Blob(chunks, { type: recorder.mimeType }) : null)
+        }
+        recorder.onerror = () => {
+          releaseStream()
+          resolve(null)
+        }
+        recorder.stop()
+      })
+    },
+    discard() {
+      recorder.ondataavailable = null
+      chunks.length = 0
+      try {
+        if (recorder.state !== "inactive") recorder.stop()
+      } catch {
+        // ignore
+      }
+      releaseStream()
+    },
+  }
+}
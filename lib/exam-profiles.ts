@@ -0,0 +1,91 @@
+import type { ScoringWeights } from "@/lib/scoring"
+
+// Which audio cues mark the speaking window
+export type BeepMode = "start-and-end" | "start-only" | "none"
+
+export type ExamProfile = {
+  id: string
+  label: string
+  description: string
+  prepMs: number
+  speakMs: number
+  beeps: BeepMode
+  // Applied on top of whichever scorer is selected
+  weights: Partial<ScoringWeights>
+}
+
+export const DEFAULT_EXAM_PROFILE_ID = "versant"
+export const CUSTOM_EXAM_PROFILE_ID = "custom"
+
+export const EXAM_PROFILES: ExamProfile[] = [
+  {
+    id: "versant",
+    label: "Versant",
+    description: "Story Retelling: a short prep pause, then a beep and 40 seconds to retell.",
+    prepMs: 5_000,
+    speakMs: 40_000,
+    beeps: "start-and-end",
+    weights: {},
+  },
+  {
+    id: "pte-retell-lecture",
+    label: "PTE Retell Lecture",
+    description: "10 seconds to prepare, 40 seconds to speak. Recording starts with a single tone.",
+    prepMs: 10_000,
+    speakMs: 40_000,
+    beeps: "start-only",
+    // Content is judged on the main ideas, so reward general content-word overlap more
+    weights: { exact: 0.5, partial: 0.2, content: 0.3 },
+  },
+  {
+    id: "toefl-integrated",
+    label: "TOEFL Integrated",
+    description: "TOEFL-style integrated speaking: 30 seconds to prepare, 60 seconds to respond.",
+    prepMs: 30_000,
+    speakMs: 60_000,
+    beeps: "start-and-end",
+    // Responses are expected to follow the source's structure
+    weights: { order: 0.4 },
+  },
+]
+
+// Starting point for the user-editable profile
+export const DEFAULT_CUSTOM_PROFILE: ExamProfile = {
+  id: CUSTOM_EXAM_PROFILE_ID,
+  label: "Custom",
+  description: "Your own prep and speaking times.",
+  prepMs: 5_000,
+  speakMs: 40_000,
+  beeps: "start-and-end",
+  weights: {},
+}
+
+export const PREP_RANGE_MS = { min: 0, max: 60_000 }
+export const SPEAK_RANGE_MS = { min: 10_000, max: 180_000 }
+
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback
+  return Math.min(range.max, Math.max(range.min, Math.round(value)))
+}
+
+// Rebuild a custom profile from untrusted storage, keeping only the editable fields
+export function sanitizeCustomProfile(value: unknown): ExamProfile {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<ExamProfile>
+  const beeps: BeepMode[] = ["start-and-end", "start-only", "none"]
+  return {
+    ...DEFAULT_CUSTOM_PROFILE,
+    prepMs: clamp(stored.prepMs, PREP_RANGE_MS, DEFAULT_CUSTOM_PROFILE.prepMs),
+    speakMs: clamp(stored.speakMs, SPEAK_RANGE_MS, DEFAULT_CUSTOM_PROFILE.speakMs),
+    beeps: beeps.includes(stored.beeps as BeepMode) ? (stored.beeps as BeepMode) : DEFAULT_CUSTOM_PROFILE.beeps,
+  }
+}
+
+// Unknown ids (e.g. a profile removed since it was saved) fall back to the default profile
+export function getExamProfile(id: string, custom: ExamProfile = DEFAULT_CUSTOM_PROFILE): ExamProfile {
+  if (id === CUSTOM_EXAM_PROFILE_ID) return custom
+  return EXAM_PROFILES.find((profile) => profile.id === id) ?? EXAM_PROFILES[0]
+}
+
+export function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 1000)}s`
+}
@@ -0,0 +1,194 @@
+import { toScoreResult } from "@/lib/scorers"
+import type { SequenceBreakdown } from "@/lib/scorers"
+import type { ContentWordScore, KeywordScore } from "@/lib/scoring"
+import type { PracticeSession } from "@/lib/types"
+
+const DB_NAME = "story-retell"
+const DB_VERSION = 2
+const SESSION_STORE = "sessions"
+// Audio clips live in their own store so loading the session list doesn't pull every recording into memory
+const RECORDING_STORE = "recordings"
+
+// Bump this whenever the shape of PracticeSession changes and add a matching
+// entry to SESSION_MIGRATIONS so records written by older builds stay readable.
+export const SESSION_SCHEMA_VERSION = 10
+
+type StoredSession = PracticeSession & { schemaVersion: number }
+
+// A record as read back from IndexedDB, at whatever schema version wrote it
+type StoredRecord = Record<string, unknown>
+
+function asRecord(value: unknown): StoredRecord {
+  return typeof value === "object" && value !== null ? (value as StoredRecord) : {}
+}
+
+// Keyed by the version a record is upgraded *from*; each step returns the record at version + 1
+const SESSION_MIGRATIONS: Record<number, (record: StoredRecord) => StoredRecord> = {
+  // v2: `breakdown` is the scorer-agnostic ScoreResult instead of the raw lib/scoring.ts output
+  1: (record) => {
+    const raw: StoredRecord = { partialMatches: [], ...asRecord(record.breakdown) }
+    const scorerId = "eventOrderScore" in raw ? "sequence" : "accuracyRate" in raw ? "keyword" : "content-word"
+    // v1 stored the scoring function's result as is, so its fields are the ones that function returns
+    const breakdown = toScoreResult(scorerId, raw as ContentWordScore | KeywordScore)
+    if (scorerId === "sequence") {
+      const sequence = raw as Partial<SequenceBreakdown>
+      breakdown.sequence = {
+        keywordCoverageScore: sequence.keywordCoverageScore ?? 0,
+        eventOrderScore: sequence.eventOrderScore ?? 0,
+        eventsRecalled: sequence.eventsRecalled ?? 0,
+        eventsInOrder: sequence.eventsInOrder ?? 0,
+        totalEvents: sequence.totalEvents ?? 0,
+        eventAlignment: sequence.eventAlignment ?? [],
+      }
+    }
+    return { ...record, breakdown }
+  },
+  // v3: ScoreResult gained `synonymMatches`
+  2: (record) => ({ ...record, breakdown: { synonymMatches: [], ...asRecord(record.breakdown) } }),
+  // v4: ScoreResult gained `partialPhrases` for multi-word keywords
+  3: (record) => ({ ...record, breakdown: { partialPhrases: [], ...asRecord(record.breakdown) } }),
+  // v5: sessions record the exam profile; everything before used the Versant timings
+  4: (record) => ({ examProfileId: "versant", ...record }),
+  // v6: retries link back to the attempt they retried
+  5: (record) => ({ retryOf: null, ...record }),
+  // v7: sessions can have a recorded retelling
+  6: (record) => ({ recording: null, ...record }),
+  // v8: sessions record whether the retelling was spoken or typed
+  7: (record) => ({ responseMode: "spoken", ...record }),
+  // v9: voice settings gained pitch; it was always the default before
+  8: (record) => ({ ...record, voiceSettings: { pitch: 1, ...asRecord(record.voiceSettings) } }),
+  // v10: sessions record the story bank's language; only the English bank existed before
+  9: (record) => ({ language: "en", ...record }),
+}
+
+// Object store / index changes, keyed by the database version they introduce
+const STORE_UPGRADES: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const store = db.createObjectStore(SESSION_STORE, { keyPath: "id" })
+    store.createIndex("timestamp", "timestamp")
+    store.createIndex("storyId", "storyId")
+  },
+  2: (db) => {
+    db.createObjectStore(RECORDING_STORE, { keyPath: "sessionId" })
+  },
+}
+
+export function isHistoryStorageAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window && !!window.indexedDB
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isHistoryStorageAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available in this environment"))
+  }
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const tx = request.transaction!
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        STORE_UPGRADES[version]?.(db, tx)
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Another tab upgraded the schema - drop our handle so the next call reopens
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error ?? new Error("Failed to open practice history database"))
+    }
+
+    request.onblocked = () => {
+      console.warn("Practice history upgrade blocked by another open tab")
+    }
+  })
+
+  return dbPromise
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Bring a stored record up to the current schema version
+export function migrateSession(record: unknown): PracticeSession {
+  let current: StoredRecord = { ...asRecord(record) }
+  let version: number = typeof current.schemaVersion === "number" ? current.schemaVersion : 1
+
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = SESSION_MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No practice history migration from schema version ${version}`)
+    }
+    current = migrate(current)
+    version++
+  }
+
+  const { schemaVersion, ...session } = current
+  return {
+    ...session,
+    timestamp: session.timestamp instanceof Date ? session.timestamp : new Date(session.timestamp as string | number),
+  } as PracticeSession
+}
+
+export async function saveSession(session: PracticeSession): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(SESSION_STORE, "readwrite")
+  const record: StoredSession = { ...session, schemaVersion: SESSION_SCHEMA_VERSION }
+  await promisifyRequest(tx.objectStore(SESSION_STORE).put(record))
+}
+
+// Returns every stored session, newest first
+export async function loadSessions(): Promise<PracticeSession[]> {
+  const db = await openDatabase()
+  const tx = db.transaction(SESSION_STORE, "readonly")
+  const records = await promisifyRequest(tx.objectStore(SESSION_STORE).index("timestamp").getAll())
+
+  const sessions: PracticeSession[] = []
+  for (const record of records) {
+    try {
+      sessions.push(migrateSession(record))
+    } catch (error) {
+      console.warn("Skipping unreadable practice session:", record?.id, error)
+    }
+  }
+  return sessions.reverse()
+}
+
+export async function clearSessions(): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([SESSION_STORE, RECORDING_STORE], "readwrite")
+  await Promise.all([
+    promisifyRequest(tx.objectStore(SESSION_STORE).clear()),
+    promisifyRequest(tx.objectStore(RECORDING_STORE).clear()),
+  ])
+}
+
+export async function saveRecording(sessionId: string, audio: Blob): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(RECORDING_STORE, "readwrite")
+  await promisifyRequest(tx.objectStore(RECORDING_STORE).put({ sessionId, audio }))
+}
+
+export async function loadRecording(sessionId: string): Promise<Blob | null> {
+  const db = await openDatabase()
+  const tx = db.transaction(RECORDING_STORE, "readonly")
+  const record = await promisifyRequest(tx.objectStore(RECORDING_STORE).get(sessionId))
+  return record?.audio ?? null
+}
@@ -0,0 +1,194 @@
+import { lookupLemma } from "@/lib/lemmas"
+import { canonicalizeNumbers } from "@/lib/numbers"
+import { toAmericanSpelling } from "@/lib/spelling"
+
+// Language-specific parts of scoring: which words are too common to count and how words are reduced to a
+// comparison term. Tokenising (Unicode letters and digits) is shared and lives in lib/scoring.ts.
+
+export type LanguagePack = {
+  // ISO 639-1 code, as used in stories.json ("language": "es") and at the start of locale tags
+  id: string
+  label: string
+  stopwords: Set<string>
+  // Lowercased word tokens in text order -> comparison terms, with stopwords dropped
+  terms(tokens: string[]): string[]
+  // Comparison term for one keyword word; unlike terms() it never drops the word
+  keywordTerm(word: string): string
+}
+
+export const DEFAULT_LANGUAGE = "en"
+
+// Enhanced stopwords list for Versant test scoring - focuses on meaningful content words
+const ENGLISH_STOPWORDS = new Set([
+  // Articles
+  "a", "an", "the",
+  // Conjunctions
+  "and", "or", "but", "if", "then", "than", "that", "this", "those", "these", "there",
+  // Common verbs (auxiliary/helping)
+  "is", "are", "was", "were", "be", "been", "being", "am", "do", "does", "did", "done", "doing",
+  "have", "has", "had", "will", "would", "shall", "should", "can", "could", "may", "might", "must",
+  // Prepositions
+  "for", "to", "of", "in", "on", "at", "by", "with", "as", "from", "into", "out", "about", "over", "after",
+  // Pronouns
+  "it", "its", "it's", "he", "she", "they", "we", "you", "i", "me", "him", "her", "them", "us",
+  "my", "your", "our", "their", "his", "hers", "ours", "theirs",
+  // Common adverbs/adjectives
+  "so", "very", "just", "also", "too", "much", "many", "more", "most", "some", "any", "all",
+  "few", "several", "such", "up", "down", "before", "again", "once", "when", "while",
+  "where", "why", "how",
+  // Common verbs (basic actions)
+  "got", "get", "getting", "go", "going", "went", "come", "came", "coming"
+])
+
+function englishStem(token: string): string {
+  // Irregular forms ("ran", "bought") map straight to their base form
+  const lemma = lookupLemma(token)
+  if (lemma) return lemma
+
+  // Simple stemming: just normalize to lowercase and remove common suffixes
+  let stemmed = token.toLowerCase()
+
+  // Remove common suffixes
+  stemmed = stemmed.replace(/(ing|ed|ly|ness|ment|s)$/i, "")
+
+  return stemmed
+}
+
+const english: LanguagePack = {
+  id: "en",
+  label: "English",
+  stopwords: ENGLISH_STOPWORDS,
+  // Number words become digits ("forty" -> "40") and British spellings American before stemming
+  terms: (tokens) =>
+    canonicalizeNumbers(tokens)
+      .map(toAmericanSpelling)
+      .map(englishStem)
+      .filter((t) => t && !ENGLISH_STOPWORDS.has(t)),
+  keywordTerm: (word) => englishStem(toAmericanSpelling(canonicalizeNumbers([word]).join(" "))),
+}
+
+// Accents are folded for the other languages: recognizers and learners' typing don't always agree on them
+function foldDiacritics(token: string): string {
+  return token.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+}
+
+// Light stemmer: strips the first (longest listed first) suffix that leaves at least three letters
+function suffixStemmer(suffixes: string[]): (token: string) => string {
+  const ordered = [...suffixes].sort((a, b) => b.length - a.length)
+  return (token) => {
+    const suffix = ordered.find((s) => token.endsWith(s) && token.length - s.length >= 3)
+    return suffix ? token.slice(0, -suffix.length) : token
+  }
+}
+
+function lightLanguage(
+  id: string,
+  label: string,
+  stopwords: string[],
+  suffixes: string[],
+  fold: (token: string) => string = foldDiacritics,
+): LanguagePack {
+  const stopwordSet = new Set(stopwords.map(fold))
+  const stem = suffixStemmer(suffixes.map(fold))
+  return {
+    id,
+    label,
+    stopwords: stopwordSet,
+    terms: (tokens) =>
+      tokens
+        .map(fold)
+        .filter((t) => t && !stopwordSet.has(t))
+        .map(stem),
+    keywordTerm: (word) => stem(fold(word)),
+  }
+}
+
+const spanish = lightLanguage(
+  "es",
+  "Español",
+  [
+    "el", "la", "los", "las", "un", "una", "unos", "unas", "lo", "al", "del",
+    "y", "e", "o", "u", "ni", "pero", "sino", "que", "porque", "como", "cuando", "donde", "si", "pues",
+    "a", "ante", "con", "contra", "de", "desde", "en", "entre", "hacia", "hasta", "para", "por", "sin", "sobre", "tras",
+    "yo", "tú", "él", "ella", "ello", "nosotros", "nosotras", "vosotros", "ellos", "ellas", "usted", "ustedes",
+    "me", "te", "se", "nos", "os", "le", "les", "mi", "mis", "tu", "tus", "su", "sus", "nuestro", "nuestra",
+    "este", "esta", "estos", "estas", "ese", "esa", "esos", "esas", "aquel", "aquella", "esto", "eso",
+    "es", "son", "era", "eran", "fue", "fueron", "ser", "estar", "está", "están", "estaba", "estaban",
+    "ha", "han", "había", "habían", "hay", "haber", "he", "has",
+    "muy", "más", "menos", "ya", "también", "tan", "tanto", "todo", "todos", "toda", "todas", "otro", "otra",
+    "no", "sí", "entonces", "luego",
+  ],
+  [
+    "amientos", "imientos", "amiento", "imiento", "aciones", "uciones", "ación", "ución", "adoras", "adores",
+    "adora", "ador", "ancias", "ancia", "idades", "idad", "mente", "ismos", "ismo", "istas", "ista",
+    "ables", "able", "ibles", "ible", "osos", "osas", "oso", "osa", "ando", "iendo", "ados", "adas", "idos",
+    "idas", "ado", "ada", "ido", "ida", "aron", "ieron", "aban", "aba", "ían", "ía", "ar", "er", "ir",
+    "es", "as", "os", "a", "o", "e", "s",
+  ],
+)
+
+const french = lightLanguage(
+  "fr",
+  "Français",
+  [
+    "le", "la", "les", "un", "une", "des", "du", "de", "d", "l", "au", "aux",
+    "et", "ou", "mais", "donc", "or", "ni", "car", "que", "qu", "qui", "quand", "comme", "si", "puis",
+    "à", "dans", "par", "pour", "en", "vers", "avec", "sans", "sous", "sur", "chez", "entre", "après", "avant",
+    "je", "j", "tu", "il", "elle", "on", "nous", "vous", "ils", "elles", "me", "m", "te", "t", "se", "s",
+    "lui", "leur", "leurs", "y", "mon", "ma", "mes", "ton", "ta", "tes", "son", "sa", "ses", "notre", "votre",
+    "ce", "c", "cet", "cette", "ces", "cela", "ça",
+    "est", "sont", "était", "étaient", "été", "être", "suis", "es", "a", "ont", "avait", "avaient", "avoir",
+    "ne", "n", "pas", "plus", "très", "aussi", "tout", "tous", "toute", "toutes", "alors", "encore", "déjà",
+  ],
+  [
+    "issements", "issement", "atrices", "ateurs", "ations", "atrice", "ateur", "ation", "ements", "ement",
+    "euses", "euse", "eux", "ités", "ité", "ives", "ive", "ifs", "if", "ances", "ance", "ences", "ence",
+    "ment", "aient", "ait", "ais", "ant", "ées", "ée", "és", "é", "er", "ir", "ez", "es", "e", "s", "x",
+  ],
+)
+
+const german = lightLanguage(
+  "de",
+  "Deutsch",
+  [
+    "der", "die", "das", "den", "dem", "des", "ein", "eine", "einen", "einem", "einer", "eines",
+    "und", "oder", "aber", "denn", "sondern", "dass", "weil", "wenn", "als", "ob", "wie", "dann",
+    "in", "im", "an", "am", "auf", "aus", "bei", "mit", "nach", "von", "vom", "zu", "zum", "zur", "für",
+    "über", "unter", "vor", "durch", "gegen", "ohne", "um",
+    "ich", "du", "er", "sie", "es", "wir", "ihr", "mich", "dich", "sich", "uns", "euch", "ihn", "ihm",
+    "ihnen", "mein", "meine", "dein", "deine", "sein", "seine", "ihre", "unser", "unsere",
+    "ist", "sind", "war", "waren", "bin", "bist", "sein", "hat", "haben", "hatte", "hatten", "wird",
+    "werden", "wurde", "wurden", "kann", "konnte",
+    "nicht", "kein", "keine", "sehr", "auch", "noch", "schon", "nur", "so", "da", "hier", "dort", "alle",
+  ],
+  ["ungen", "ung", "heiten", "heit", "keiten", "keit", "lichen", "liche", "lich", "ischen", "isch", "ern", "em", "en", "er", "es", "e", "s", "n"],
+  // Umlauts carry meaning (schon/schön), so they're spelled out the way they're typed without a German keyboard
+  (token) => token.replace(/ä/g, "ae").replace(/ö/g, "oe").replace(/ü/g, "ue").replace(/ß/g, "ss"),
+)
+
+const registry = new Map<string, LanguagePack>()
+
+export function registerLanguagePack(pack: LanguagePack) {
+  if (registry.has(pack.id)) {
+    throw new Error(`Language pack "${pack.id}" is already registered`)
+  }
+  registry.set(pack.id, pack)
+}
+
+export function listLanguagePacks(): LanguagePack[] {
+  return [...registry.values()]
+}
+
+export function isSupportedLanguage(id: string): boolean {
+  return registry.has(id)
+}
+
+// Unknown languages fall back to English rather than failing to score
+export function getLanguagePack(id: string = DEFAULT_LANGUAGE): LanguagePack {
+  return registry.get(id) ?? registry.get(DEFAULT_LANGUAGE)!
+}
+
+registerLanguagePack(english)
+registerLanguagePack(spanish)
+registerLanguagePack(french)
+registerLanguagePack(german)
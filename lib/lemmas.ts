@@ -0,0 +1,123 @@
+// Offline lemma table for irregular English verb forms the suffix stemmer can't reach
+// (e.g. "ran" -> "run", "bought" -> "buy"). Regular inflections are left to stem().
+// Forms of go/get/come are left out: their base forms are stopwords and would vanish from scoring.
+export const IRREGULAR_LEMMAS: Record<string, string> = {
+  arose: "arise", arisen: "arise",
+  ate: "eat", eaten: "eat",
+  awoke: "awake", awoken: "awake",
+  beaten: "beat",
+  became: "become",
+  began: "begin", begun: "begin",
+  bent: "bend",
+  bit: "bite", bitten: "bite",
+  bled: "bleed",
+  blew: "blow", blown: "blow",
+  bore: "bear", born: "bear", borne: "bear",
+  bought: "buy",
+  bound: "bind",
+  broke: "break", broken: "break",
+  brought: "bring",
+  built: "build",
+  burnt: "burn",
+  caught: "catch",
+  chose: "choose", chosen: "choose",
+  clung: "cling",
+  crept: "creep",
+  dealt: "deal",
+  dove: "dive",
+  drew: "draw", drawn: "draw",
+  drank: "drink", drunk: "drink",
+  drove: "drive", driven: "drive",
+  dug: "dig",
+  dreamt: "dream",
+  fed: "feed",
+  fell: "fall", fallen: "fall",
+  felt: "feel",
+  fled: "flee",
+  flew: "fly", flown: "fly",
+  forbade: "forbid", forbidden: "forbid",
+  forgot: "forget", forgotten: "forget",
+  forgave: "forgive", forgiven: "forgive",
+  fought: "fight",
+  found: "find",
+  froze: "freeze", frozen: "freeze",
+  gave: "give", given: "give",
+  grew: "grow", grown: "grow",
+  hid: "hide", hidden: "hide",
+  held: "hold",
+  heard: "hear",
+  hung: "hang",
+  kept: "keep",
+  knelt: "kneel",
+  knew: "know", known: "know",
+  laid: "lay",
+  lain: "lie",
+  led: "lead",
+  leapt: "leap",
+  left: "leave",
+  lent: "lend",
+  lit: "light",
+  lost: "lose",
+  made: "make",
+  meant: "mean",
+  met: "meet",
+  paid: "pay",
+  ran: "run",
+  rang: "ring", rung: "ring",
+  rode: "ride", ridden: "ride",
+  rose: "rise", risen: "rise",
+  said: "say",
+  sang: "sing", sung: "sing",
+  sank: "sink", sunk: "sink",
+  sat: "sit",
+  saw: "see", seen: "see",
+  sent: "send",
+  shook: "shake", shaken: "shake",
+  shone: "shine",
+  shot: "shoot",
+  shown: "show",
+  shrank: "shrink", shrunk: "shrink",
+  slept: "sleep",
+  slid: "slide",
+  sold: "sell",
+  sought: "seek",
+  spoke: "speak", spoken: "speak",
+  spent: "spend",
+  spun: "spin",
+  stole: "steal", stolen: "steal",
+  stood: "stand",
+  stuck: "stick",
+  stung: "sting",
+  struck: "strike",
+  swam: "swim", swum: "swim",
+  swept: "sweep",
+  swore: "swear", sworn: "swear",
+  swung: "swing",
+  taught: "teach",
+  took: "take", taken: "take",
+  tore: "tear", torn: "tear",
+  thought: "think",
+  threw: "throw", thrown: "throw",
+  told: "tell",
+  understood: "understand",
+  woke: "wake", woken: "wake",
+  wore: "wear", worn: "wear",
+  won: "win",
+  wept: "weep",
+  wound: "wind",
+  wrote: "write", written: "write",
+  // Irregular plurals
+  children: "child",
+  feet: "foot",
+  geese: "goose",
+  men: "man",
+  mice: "mouse",
+  people: "person",
+  teeth: "tooth",
+  women: "woman",
+}
+
+// Base form for a known irregular word, or undefined when the table doesn't cover it
+export function lookupLemma(token: string): string | undefined {
+  return IRREGULAR_LEMMAS[token.toLowerCase()]
+}
@@ -0,0 +1,213 @@
+import type { RecognitionErrorCode, RecognitionProvider } from "@/lib/recognition"
+
+// Offline recognition with Vosk compiled to WebAssembly (https://github.com/ccoreilly/vosk-browser).
+// Nothing is bundled: the engine script and models are served from public/recognition, so the app
+// still builds and runs without them. The provider only reports itself supported once a HEAD request
+// has found the script and the model for the language (see checkAvailability).
+
+export const LOCAL_ENGINE_BASE = "/recognition"
+const ENGINE_SCRIPT = `${LOCAL_ENGINE_BASE}/vosk.js`
+
+// Model archive per language (the part of the BCP 47 tag before the region)
+export const LOCAL_MODELS: Record<string, string> = {
+  en: `${LOCAL_ENGINE_BASE}/models/vosk-model-small-en-us-0.15.tar.gz`,
+  es: `${LOCAL_ENGINE_BASE}/models/vosk-model-small-es-0.42.tar.gz`,
+  fr: `${LOCAL_ENGINE_BASE}/models/vosk-model-small-fr-0.22.tar.gz`,
+  de: `${LOCAL_ENGINE_BASE}/models/vosk-model-small-de-0.15.tar.gz`,
+}
+
+type VoskMessage = { result?: { text?: string; partial?: string } }
+
+type VoskRecognizer = {
+  on(event: "result" | "partialresult", listener: (message: VoskMessage) => void): void
+  acceptWaveform(buffer: AudioBuffer): void
+  retrieveFinalResult(): void
+  remove(): void
+}
+
+type VoskModel = {
+  KaldiRecognizer: new (sampleRate: number) => VoskRecognizer
+}
+
+type VoskModule = {
+  createModel(url: string): Promise<VoskModel>
+}
+
+type LocalEngineError = Error & { code: RecognitionErrorCode }
+
+function engineError(code: RecognitionErrorCode, message: string): LocalEngineError {
+  return Object.assign(new Error(message), { code })
+}
+
+function isEngineError(error: unknown): error is LocalEngineError {
+  return error instanceof Error && "code" in error
+}
+
+let enginePromise: Promise<VoskModule> | null = null
+const modelPromises = new Map<string, Promise<VoskModel>>()
+
+function loadEngine(): Promise<VoskModule> {
+  if (enginePromise) return enginePromise
+  enginePromise = new Promise<VoskModule>((resolve, reject) => {
+    const script = document.createElement("script")
+    script.src = ENGINE_SCRIPT
+    script.async = true
+    script.onload = () => {
+      const vosk = (window as unknown as { Vosk?: VoskModule }).Vosk
+      if (vosk) resolve(vosk)
+      else reject(engineError("engine-unavailable", `${ENGINE_SCRIPT} did not define Vosk`))
+    }
+    script.onerror = () =>
+      reject(engineError("engine-unavailable", `Offline recognition engine not found at ${ENGINE_SCRIPT}`))
+    document.head.appendChild(script)
+  }).catch((error) => {
+    // Allow another attempt once the files are in place
+    enginePromise = null
+    throw error
+  })
+  return enginePromise
+}
+
+function modelUrl(lang: string): string | undefined {
+  return LOCAL_MODELS[lang.split("-")[0].toLowerCase()]
+}
+
+// Files found by a HEAD request, and the pending or settled check per file (once per page load)
+const foundFiles = new Set<string>()
+const fileChecks = new Map<string, Promise<boolean>>()
+
+function checkFile(url: string): Promise<boolean> {
+  let check = fileChecks.get(url)
+  if (!check) {
+    check = fetch(url, { method: "HEAD" })
+      .then((response) => response.ok)
+      .catch(() => false)
+      .then((found) => {
+        if (found) foundFiles.add(url)
+        return found
+      })
+    fileChecks.set(url, check)
+  }
+  return check
+}
+
+function platformSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof WebAssembly !== "undefined" &&
+    "AudioContext" in window &&
+    !!navigator.mediaDevices?.getUserMedia
+  )
+}
+
+// Models are large, so each one is downloaded once per page load and shared between sessions
+function loadModel(lang: string): Promise<VoskModel> {
+  const url = modelUrl(lang)
+  if (!url) {
+    return Promise.reject(engineError("language-not-supported", `No offline model configured for ${lang}`))
+  }
+  let model = modelPromises.get(url)
+  if (!model) {
+    model = loadEngine()
+      .then((vosk) => vosk.createModel(url))
+      .catch((error) => {
+        modelPromises.delete(url)
+        if (isEngineError(error)) throw error
+        throw engineError("engine-unavailable", `Offline recognition model could not be loaded from ${url}`)
+      })
+    modelPromises.set(url, model)
+  }
+  return model
+}
+
+export const localRecognitionProvider: RecognitionProvider = {
+  id: "local",
+  label: "Offline (Vosk)",
+  description: "Runs a speech model in the page with WebAssembly. Works offline and in any modern browser once installed.",
+  offline: true,
+  isSupported(lang) {
+    const model = modelUrl(lang)
+    return platformSupported() && !!model && foundFiles.has(ENGINE_SCRIPT) && foundFiles.has(model)
+  },
+  async checkAvailability(lang) {
+    const model = modelUrl(lang)
+    if (!platformSupported() || !model) return false
+    const [engine, found] = await Promise.all([checkFile(ENGINE_SCRIPT), checkFile(model)])
+    return engine && found
+  },
+  start({ lang }, { onResult, onError }) {
+    let active = true
+    // Cleared on abort so late results are dropped
+    let deliver = true
+    let teardown: (flush: boolean) => void = () => {}
+
+    const setup = async () => {
+      const model = await loadModel(lang)
+      if (!active) return
+
+      let stream: MediaStream
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+        })
+      } catch (error) {
+        const denied = error instanceof DOMException && error.name === "NotAllowedError"
+        throw engineError(denied ? "not-allowed" : "audio-capture", "Could not open the microphone")
+      }
+      if (!active) {
+        stream.getTracks().forEach((track) => track.stop())
+        return
+      }
+
+      const context = new AudioContext()
+      const recognizer = new model.KaldiRecognizer(context.sampleRate)
+      recognizer.on("result", (message) => {
+        const text = message.result?.text
+        if (deliver && text) onResult(text + " ", true)
+      })
+      recognizer.on("partialresult", (message) => {
+        const partial = message.result?.partial
+        if (deliver && partial) onResult(partial, false)
+      })
+
+      const source = context.createMediaStreamSource(stream)
+      // ScriptProcessorNode is deprecated but is what vosk-browser expects (it takes AudioBuffers)
+      const processor = context.createScriptProcessor(4096, 1, 1)
+      processor.onaudioprocess = (event) => {
+        if (active) recognizer.acceptWaveform(event.inputBuffer)
+      }
+      source.connect(processor)
+      processor.connect(context.destination)
+
+      teardown = (flush) => {
+        processor.disconnect()
+        source.disconnect()
+        stream.getTracks().forEach((track) => track.stop())
+        context.close().catch(() => {})
+        if (flush) recognizer.retrieveFinalResult()
+        // Give the worker a moment to post the final result before freeing the recognizer
+        setTimeout(() => recognizer.remove(), flush ? 1000 : 0)
+      }
+    }
+
+    setup().catch((error) => {
+      if (!deliver) return
+      if (isEngineError(error)) onError({ code: error.code, message: error.message })
+      else onError({ code: "unknown", message: error instanceof Error ? error.message : String(error) })
+    })
+
+    return {
+      stop() {
+        if (!active) return
+        active = false
+        teardown(true)
+      },
+      abort() {
+        if (!active) return
+        active = false
+        deliver = false
+        teardown(false)
+      },
+    }
+  },
+}
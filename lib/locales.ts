@@ -0,0 +1,61 @@
+// Languages and accents the learner can practise with. The locale drives which story bank is loaded,
+// which voices are offered, the language tag given to each utterance and the language passed to
+// speech recognition.
+
+export type Locale = {
+  id: string
+  label: string
+  // Language pack and story bank (lib/languages.ts) the locale belongs to
+  language: string
+}
+
+export const LOCALES: Locale[] = [
+  { id: "en-US", label: "American English", language: "en" },
+  { id: "en-GB", label: "British English", language: "en" },
+  { id: "en-AU", label: "Australian English", language: "en" },
+  { id: "en-IN", label: "Indian English", language: "en" },
+  { id: "en-CA", label: "Canadian English", language: "en" },
+  { id: "es-ES", label: "Spanish (Spain)", language: "es" },
+  { id: "es-MX", label: "Spanish (Mexico)", language: "es" },
+  { id: "fr-FR", label: "French (France)", language: "fr" },
+  { id: "fr-CA", label: "French (Canada)", language: "fr" },
+  { id: "de-DE", label: "German", language: "de" },
+]
+
+export const DEFAULT_LOCALE = "en-US"
+
+export function sanitizeLocale(value: unknown): string {
+  return LOCALES.some((locale) => locale.id === value) ? (value as string) : DEFAULT_LOCALE
+}
+
+export function getLocale(id: string): Locale {
+  return LOCALES.find((locale) => locale.id === id) ?? LOCALES[0]
+}
+
+// Some platforms report "en_GB" or lowercase regions
+function normalizeLang(lang: string): string {
+  return (lang || "").replace(/_/g, "-").toLowerCase()
+}
+
+export function isLanguageVoice(voice: SpeechSynthesisVoice, language: string): boolean {
+  const lang = normalizeLang(voice.lang)
+  return lang === language || lang.startsWith(`${language}-`)
+}
+
+// A voice for one of the languages above; voices in other languages are never offered
+export function isSupportedVoice(voice: SpeechSynthesisVoice): boolean {
+  return LOCALES.some((locale) => isLanguageVoice(voice, locale.language))
+}
+
+export function voiceMatchesLocale(voice: SpeechSynthesisVoice, locale: string): boolean {
+  return normalizeLang(voice.lang) === normalizeLang(locale)
+}
+
+// Voices for the locale; when none are installed, every voice of its language (`exact` tells the two apart)
+export function voicesForLocale(voices: SpeechSynthesisVoice[], locale: string) {
+  const matching = voices.filter((voice) => voiceMatchesLocale(voice, locale))
+  const { language } = getLocale(locale)
+  return matching.length > 0
+    ? { voices: matching, exact: true }
+    : { voices: voices.filter((voice) => isLanguageVoice(voice, language)), exact: false }
+}
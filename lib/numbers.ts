@@ -0,0 +1,170 @@
+// Number normalization for scoring: spoken and written numbers collapse to the same digit token,
+// so "two seconds", "2 seconds" and "a couple of seconds" all read as "2 seconds".
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+}
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+}
+
+const SCALES: Record<string, number> = {
+  hundred: 100, thousand: 1_000, million: 1_000_000, billion: 1_000_000_000,
+}
+
+// "second" is left out on purpose - on its own it is far more often the unit of time
+const ORDINALS: Record<string, number> = {
+  first: 1, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+  eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15, sixteenth: 16,
+  seventeenth: 17, eighteenth: 18, nineteenth: 19, twentieth: 20, thirtieth: 30, fortieth: 40,
+  fiftieth: 50, sixtieth: 60, seventieth: 70, eightieth: 80, ninetieth: 90, hundredth: 100,
+  thousandth: 1_000,
+}
+
+// Simple spoken quantities, matched before number words. "a couple" only counts when followed by "of".
+const QUANTITIES: { words: string[]; value: number }[] = [
+  { words: ["a", "couple", "of"], value: 2 },
+  { words: ["couple", "of"], value: 2 },
+  { words: ["a", "pair", "of"], value: 2 },
+  { words: ["a", "dozen"], value: 12 },
+  { words: ["dozen"], value: 12 },
+  { words: ["a", "score", "of"], value: 20 },
+]
+
+function isNumberWord(token: string): boolean {
+  return token in UNITS || token in TENS || token in SCALES
+}
+
+function ordinalSuffix(n: number): string {
+  const lastTwo = n % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return "th"
+  switch (n % 10) {
+    case 1: return "st"
+    case 2: return "nd"
+    case 3: return "rd"
+    default: return "th"
+  }
+}
+
+// Keep decimals and thousands separators intact before punctuation is stripped ("24.5", "1,000" -> "1000")
+export function protectNumerals(text: string): string {
+  return text
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/(?<!\d)\.|\.(?!\d)/g, " ")
+}
+
+// Parse a run of number words starting at `start`; returns the value and how many tokens were used
+function parseNumberWords(tokens: string[], start: number): { value: number; length: number; ordinal: boolean } | null {
+  let total = 0
+  let current = 0
+  let i = start
+  let consumed = false
+  let ordinal = false
+
+  // "a hundred", "a thousand"
+  if (tokens[i] === "a" && (tokens[i + 1] ?? "") in SCALES) {
+    current = 1
+    i++
+  }
+
+  while (i < tokens.length) {
+    const token = tokens[i]
+    // A new number starts when words can't combine ("two three", "twenty thirty")
+    const underHundred = current % 100
+    if (token in UNITS) {
+      const unit = UNITS[token]
+      if (consumed && (underHundred % 10 !== 0 || (unit >= 10 && underHundred !== 0))) break
+      current += unit
+    } else if (token in TENS) {
+      if (consumed && underHundred !== 0) break
+      current += TENS[token]
+    } else if (token in SCALES) {
+      const scale = SCALES[token]
+      if (scale === 100) {
+        current = (current || 1) * scale
+      } else {
+        total += (current || 1) * scale
+        current = 0
+      }
+    } else if (token in ORDINALS || (token === "second" && consumed)) {
+      // Ordinal closes the number, but only joins a whole ten ("twenty first") or follows a scale
+      // ("one hundred first", "one hundredth"). Otherwise the cardinal ends here, so "one second"
+      // stays "1 second" and "one third" doesn't become "4th".
+      const value = token === "second" ? 2 : ORDINALS[token]
+      const afterScale = (tokens[i - 1] ?? "") in SCALES
+      const afterTen = underHundred >= 20 && underHundred % 10 === 0 && value < 10
+      if (consumed && !(value >= 100 || afterScale || afterTen)) break
+      if (value >= 100) current = (current || 1) * value
+      else current += value
+      ordinal = true
+      i++
+      consumed = true
+      break
+    } else if (token === "and" && (tokens[i - 1] ?? "") in SCALES && isNumberWord(tokens[i + 1] ?? "")) {
+      // "one hundred and five"
+    } else {
+      break
+    }
+    consumed = true
+    i++
+  }
+
+  if (!consumed) return null
+  return { value: total + current, length: i - start, ordinal }
+}
+
+// Replace spoken numbers, ordinals and simple quantities in a token stream with digit tokens
+export function canonicalizeNumbers(tokens: string[]): string[] {
+  const out: string[] = []
+  let i = 0
+
+  while (i < tokens.length) {
+    const token = tokens[i]
+
+    const quantity = QUANTITIES.find(q => q.words.every((word, offset) => tokens[i + offset] === word))
+    if (quantity) {
+      out.push(String(quantity.value))
+      i += quantity.words.length
+      continue
+    }
+
+    // Written ordinals ("1st", "22nd") are already canonical
+    if (/^\d+(st|nd|rd|th)$/.test(token)) {
+      out.push(token)
+      i++
+      continue
+    }
+
+    const parsed = (isNumberWord(token) || token in ORDINALS || (token === "a" && (tokens[i + 1] ?? "") in SCALES))
+      ? parseNumberWords(tokens, i)
+      : null
+    if (parsed) {
+      let value = String(parsed.value)
+      let length = parsed.length
+      // "twenty four point five"
+      if (!parsed.ordinal && tokens[i + length] === "point" && (tokens[i + length + 1] ?? "") in UNITS) {
+        let decimals = ""
+        let j = i + length + 1
+        while (j < tokens.length && tokens[j] in UNITS && UNITS[tokens[j]] < 10) {
+          decimals += UNITS[tokens[j]]
+          j++
+        }
+        if (decimals) {
+          value += `.${decimals}`
+          length = j - i
+        }
+      }
+      out.push(parsed.ordinal ? `${value}${ordinalSuffix(parsed.value)}` : value)
+      i += length
+      continue
+    }
+
+    out.push(token)
+    i++
+  }
+
+  return out
+}
@@ -0,0 +1,98 @@
+import type { PracticeSession, ResponseMode, StoryDifficulty } from "@/lib/types"
+
+export const DIFFICULTIES: StoryDifficulty[] = ["easy", "medium", "hard"]
+export const ROLLING_WINDOW = 5
+
+export type ScoreTrendPoint = {
+  attempt: number
+  date: string
+  rollingAverage: number
+} & Partial<Record<StoryDifficulty, number>>
+
+export type StoryBest = {
+  storyId: number
+  difficulty: StoryDifficulty
+  best: number
+  attempts: number
+}
+
+export type DifficultySummary = {
+  attempts: number
+  average: number
+  best: number
+  // Average of the latest window minus the average of the window before it (null until there are two windows)
+  recentChange: number | null
+}
+
+// Typed retells score differently from spoken ones, so trends are only built from one mode at a time
+export function sessionsForMode(sessions: PracticeSession[], mode: ResponseMode): PracticeSession[] {
+  return sessions.filter((session) => session.responseMode === mode)
+}
+
+// Story ids repeat across story banks, so per-story stats and scheduling only look at one language
+export function sessionsForLanguage(sessions: PracticeSession[], language: string): PracticeSession[] {
+  return sessions.filter((session) => session.language === language)
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function oldestFirst(sessions: PracticeSession[]): PracticeSession[] {
+  return [...sessions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
+
+// One point per attempt; the score lands in its difficulty's column so each difficulty charts as its own line
+export function buildScoreTrend(sessions: PracticeSession[], window = ROLLING_WINDOW): ScoreTrendPoint[] {
+  const ordered = oldestFirst(sessions)
+  return ordered.map((session, index) => {
+    const recent = ordered.slice(Math.max(0, index - window + 1), index + 1).map((s) => s.score)
+    return {
+      attempt: index + 1,
+      date: session.timestamp.toLocaleDateString(),
+      [session.difficulty]: session.score,
+      rollingAverage: Math.round(average(recent)),
+    }
+  })
+}
+
+export function bestScoresByStory(sessions: PracticeSession[]): StoryBest[] {
+  const byStory = new Map<number, StoryBest>()
+  for (const session of sessions) {
+    const entry = byStory.get(session.storyId)
+    if (entry) {
+      entry.best = Math.max(entry.best, session.score)
+      entry.attempts++
+    } else {
+      byStory.set(session.storyId, {
+        storyId: session.storyId,
+        difficulty: session.difficulty,
+        best: session.score,
+        attempts: 1,
+      })
+    }
+  }
+  return [...byStory.values()].sort((a, b) => a.storyId - b.storyId)
+}
+
+export function summarizeByDifficulty(
+  sessions: PracticeSession[],
+  window = ROLLING_WINDOW,
+): Record<StoryDifficulty, DifficultySummary> {
+  const ordered = oldestFirst(sessions)
+  const summary = {} as Record<StoryDifficulty, DifficultySummary>
+
+  for (const difficulty of DIFFICULTIES) {
+    const scores = ordered.filter((s) => s.difficulty === difficulty).map((s) => s.score)
+    const latest = scores.slice(-window)
+    const previous = scores.slice(-window * 2, -window)
+    summary[difficulty] = {
+      attempts: scores.length,
+      average: Math.round(average(scores)),
+      best: scores.length ? Math.max(...scores) : 0,
+      recentChange: previous.length ? Math.round(average(latest) - average(previous)) : null,
+    }
+  }
+
+  return summary
+}
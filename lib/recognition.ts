@@ -0,0 +1,211 @@
+import { localRecognitionProvider } from "@/lib/local-recognition"
+
+// Speech-to-text behind a common interface, so the practice flow doesn't care whether the transcript
+// comes from the browser's (cloud-backed) Web Speech API or a local engine running in the page.
+
+export type RecognitionErrorCode =
+  | "no-speech"
+  | "aborted"
+  | "audio-capture"
+  | "network"
+  | "not-allowed"
+  | "service-not-allowed"
+  | "language-not-supported"
+  | "phrases-not-supported"
+  // The provider's engine or model could not be loaded
+  | "engine-unavailable"
+  | "unknown"
+
+export type RecognitionError = {
+  code: RecognitionErrorCode
+  message: string
+}
+
+export type RecognitionOptions = {
+  lang: string
+}
+
+export type RecognitionCallbacks = {
+  // Interim results may be revised; final results are settled text to append to the transcript
+  onResult(text: string, isFinal: boolean): void
+  onError(error: RecognitionError): void
+}
+
+// A running recognition session. It keeps listening until stopped, restarting the engine as needed.
+export interface RecognitionSession {
+  // Stop listening but still deliver results already in flight
+  stop(): void
+  // Stop immediately and drop anything pending
+  abort(): void
+}
+
+export interface RecognitionProvider {
+  id: string
+  label: string
+  description: string
+  // Works without a network connection
+  offline: boolean
+  // Usable right now for `lang`. Engines whose files are downloaded on demand say no until
+  // checkAvailability() has found them.
+  isSupported(lang: string): boolean
+  // Confirms the engine (and its model for `lang`) can be loaded; results are cached
+  checkAvailability(lang: string): Promise<boolean>
+  start(options: RecognitionOptions, callbacks: RecognitionCallbacks): RecognitionSession
+}
+
+// Minimal typing for the Web Speech API, which TypeScript's DOM lib doesn't ship
+type WebSpeechResultList = ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>
+
+type WebSpeechRecognition = {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  maxAlternatives: number
+  onresult: ((event: { resultIndex: number; results: WebSpeechResultList }) => void) | null
+  onerror: ((event: { error: string; message?: string }) => void) | null
+  onend: (() => void) | null
+  start(): void
+  stop(): void
+  abort(): void
+}
+
+type WebSpeechRecognitionClass = new () => WebSpeechRecognition
+
+function getWebSpeechClass(): WebSpeechRecognitionClass | null {
+  if (typeof window === "undefined") return null
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionClass
+    webkitSpeechRecognition?: WebSpeechRecognitionClass
+  }
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null
+}
+
+const WEB_SPEECH_ERRORS: RecognitionErrorCode[] = [
+  "no-speech",
+  "aborted",
+  "audio-capture",
+  "network",
+  "not-allowed",
+  "service-not-allowed",
+  "language-not-supported",
+  "phrases-not-supported",
+]
+
+const webSpeechProvider: RecognitionProvider = {
+  id: "web-speech",
+  label: "Browser (Web Speech)",
+  description: "The browser's built-in recognition. Accurate, but Chrome and Edge send audio to a cloud service.",
+  offline: false,
+  isSupported() {
+    return getWebSpeechClass() !== null
+  },
+  checkAvailability() {
+    return Promise.resolve(getWebSpeechClass() !== null)
+  },
+  start({ lang }, { onResult, onError }) {
+    const SpeechRecognitionClass = getWebSpeechClass()
+    if (!SpeechRecognitionClass) {
+      onError({ code: "engine-unavailable", message: "Speech recognition is not supported in this browser" })
+      return { stop() {}, abort() {} }
+    }
+
+    let active = true
+    let current: WebSpeechRecognition | null = null
+
+    const startEngine = () => {
+      const recognition = new SpeechRecognitionClass()
+      recognition.lang = lang
+      recognition.continuous = true
+      recognition.interimResults = true
+      recognition.maxAlternatives = 1
+
+      recognition.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i]
+          onResult(result[0].transcript + " ", result.isFinal)
+        }
+      }
+
+      recognition.onerror = (event) => {
+        // "no-speech" just ends this run; onend restarts it
+        if (event.error === "no-speech" || event.error === "aborted") return
+        // Anything else (no permission, no microphone, unsupported language...) fails again on restart,
+        // so the session ends here
+        active = false
+        const code = WEB_SPEECH_ERRORS.includes(event.error as RecognitionErrorCode)
+          ? (event.error as RecognitionErrorCode)
+          : "unknown"
+        onError({ code, message: event.message || event.error })
+      }
+
+      // Chrome ends continuous recognition after silence or ~60s; keep it going until stopped or failed
+      recognition.onend = () => {
+        if (current !== recognition) return
+        current = null
+        if (!active) return
+        // Small delay to prevent rapid restart loops
+        setTimeout(() => {
+          if (active && !current) startEngine()
+        }, 100)
+      }
+
+      try {
+        recognition.start()
+        current = recognition
+      } catch {
+        onError({ code: "audio-capture", message: "Failed to start speech recognition" })
+      }
+    }
+
+    startEngine()
+
+    return {
+      stop() {
+        active = false
+        try {
+          current?.stop()
+        } catch {
+          // ignore
+        }
+      },
+      abort() {
+        active = false
+        const recognition = current
+        current = null
+        try {
+          recognition?.abort()
+        } catch {
+          // ignore
+        }
+      },
+    }
+  },
+}
+
+export const AUTO_RECOGNITION_PROVIDER_ID = "auto"
+
+const registry = new Map<string, RecognitionProvider>()
+
+export function registerRecognitionProvider(provider: RecognitionProvider) {
+  if (registry.has(provider.id)) {
+    throw new Error(`Recognition provider "${provider.id}" is already registered`)
+  }
+  registry.set(provider.id, provider)
+}
+
+export function listRecognitionProviders(): RecognitionProvider[] {
+  return [...registry.values()]
+}
+
+// "auto" (and unknown ids) prefer Web Speech while online, otherwise the first supported offline provider
+export function getRecognitionProvider(id: string, lang: string): RecognitionProvider | null {
+  const chosen = registry.get(id)
+  if (chosen?.isSupported(lang)) return chosen
+
+  const supported = listRecognitionProviders().filter((provider) => provider.isSupported(lang))
+  const online = typeof navigator === "undefined" || navigator.onLine
+  return supported.find((provider) => (online ? !provider.offline : provider.offline)) ?? supported[0] ?? null
+}
+
+registerRecognitionProvider(webSpeechProvider)
+registerRecognitionProvider(localRecognitionProvider)
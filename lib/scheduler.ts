@@ -0,0 +1,123 @@
+import type { PracticeSession, StoryWithDifficulty } from "@/lib/types"
+
+// SM-2 spaced repetition over the practice history. Review state is rebuilt from the saved sessions,
+// so there is nothing extra to persist and clearing history resets the schedule.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+// Below this a story counts as weak and jumps the queue once it is due
+export const WEAK_SCORE = 60
+
+export type StoryReviewState = {
+  storyId: number
+  repetitions: number
+  easeFactor: number
+  intervalDays: number
+  attempts: number
+  lastScore: number
+  lastReviewed: Date
+  due: Date
+}
+
+export type DueSummary = {
+  due: number
+  unseen: number
+}
+
+// SM-2 recall quality (0-5) from a percentage score; 3 and up counts as remembered
+export function scoreToQuality(score: number): number {
+  return Math.max(0, Math.min(5, Math.round(score / 20)))
+}
+
+function review(state: StoryReviewState | undefined, session: PracticeSession): StoryReviewState {
+  const quality = scoreToQuality(session.score)
+  let repetitions = state?.repetitions ?? 0
+  let intervalDays = state?.intervalDays ?? 0
+  const easeFactor = Math.max(
+    MIN_EASE,
+    (state?.easeFactor ?? INITIAL_EASE) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  )
+
+  if (quality >= 3) {
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * easeFactor)
+    repetitions++
+  } else {
+    repetitions = 0
+    intervalDays = 1
+  }
+
+  return {
+    storyId: session.storyId,
+    repetitions,
+    easeFactor,
+    intervalDays,
+    attempts: (state?.attempts ?? 0) + 1,
+    lastScore: session.score,
+    lastReviewed: session.timestamp,
+    due: new Date(session.timestamp.getTime() + intervalDays * DAY_MS),
+  }
+}
+
+export function buildReviewStates(sessions: PracticeSession[]): Map<number, StoryReviewState> {
+  const states = new Map<number, StoryReviewState>()
+  const ordered = [...sessions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  for (const session of ordered) {
+    states.set(session.storyId, review(states.get(session.storyId), session))
+  }
+  return states
+}
+
+function endOfDay(now: Date): Date {
+  const end = new Date(now)
+  end.setHours(23, 59, 59, 999)
+  return end
+}
+
+// Stories due by the end of today, and stories never attempted
+export function summarizeDue(
+  stories: StoryWithDifficulty[],
+  states: Map<number, StoryReviewState>,
+  now = new Date(),
+): DueSummary {
+  const cutoff = endOfDay(now).getTime()
+  let due = 0
+  let unseen = 0
+  for (const story of stories) {
+    const state = states.get(story.id)
+    if (!state) unseen++
+    else if (state.due.getTime() <= cutoff) due++
+  }
+  return { due, unseen }
+}
+
+// Next story to practice: weak stories that are due, then never-attempted ones, then anything else due
+// (lowest score first). When nothing is due, the story whose review comes up soonest.
+export function pickNextStory(
+  stories: StoryWithDifficulty[],
+  states: Map<number, StoryReviewState>,
+  now = new Date(),
+  random = Math.random,
+): StoryWithDifficulty | null {
+  if (stories.length === 0) return null
+
+  const seen: { story: StoryWithDifficulty; state: StoryReviewState }[] = []
+  const unseen: StoryWithDifficulty[] = []
+  for (const story of stories) {
+    const state = states.get(story.id)
+    if (state) seen.push({ story, state })
+    else unseen.push(story)
+  }
+
+  const due = seen
+    .filter(({ state }) => state.due.getTime() <= now.getTime())
+    .sort((a, b) => a.state.lastScore - b.state.lastScore || a.state.due.getTime() - b.state.due.getTime())
+
+  const weakDue = due.find(({ state }) => state.lastScore < WEAK_SCORE)
+  if (weakDue) return weakDue.story
+  if (unseen.length > 0) return unseen[Math.floor(random() * unseen.length)]
+  if (due.length > 0) return due[0].story
+
+  const soonest = seen.reduce((best, entry) => (entry.state.due < best.state.due ? entry : best))
+  return soonest.story
+}
@@ -0,0 +1,148 @@
+import {
+  computeMatchScore,
+  computeMatchScoreWithKeywords,
+  computeSequenceScore,
+  type ContentWordScore,
+  type EventAlignment,
+  type KeywordScore,
+  type PartialPhrase,
+  type ScoringWeights,
+  type SynonymMatch,
+} from "@/lib/scoring"
+import type { StoryWithDifficulty } from "@/lib/types"
+
+export type SequenceBreakdown = {
+  keywordCoverageScore: number
+  eventOrderScore: number
+  eventsRecalled: number
+  eventsInOrder: number
+  totalEvents: number
+  eventAlignment: EventAlignment[]
+}
+
+// Common result shape every scorer returns, so the UI and history never need to know which one ran
+export type ScoreResult = {
+  scorerId: string
+  percentage: number
+  matchedKeywords: string[]
+  partialMatches: string[]
+  // Keywords credited because the learner used one of the story's listed synonyms (also in matchedKeywords)
+  synonymMatches: SynonymMatch[]
+  // Multi-word keywords where only some of the words were said (also in partialMatches)
+  partialPhrases: PartialPhrase[]
+  missingKeywords: string[]
+  totalKeywords: number
+  exactMatches: number
+  partialMatchesCount: number
+  totalAttempted: number
+  accuracyRate: number
+  contentWords: number
+  userContentWords: number
+  contentMatches: number
+  sequence?: SequenceBreakdown
+}
+
+export type ScoringInput = {
+  story: StoryWithDifficulty
+  transcript: string
+  // Overrides from the active exam profile; unset components keep the scorer's own weights
+  weights?: Partial<ScoringWeights>
+  // Language pack of the story's bank (lib/languages.ts); English when unset
+  language?: string
+}
+
+export interface Scorer {
+  id: string
+  label: string
+  description: string
+  score(input: ScoringInput): ScoreResult
+}
+
+export const DEFAULT_SCORER_ID = "keyword"
+
+// Map any of the raw lib/scoring.ts results onto the common shape
+export function toScoreResult(scorerId: string, raw: ContentWordScore | KeywordScore): ScoreResult {
+  const partialMatches = raw.partialMatches ?? []
+  const exactMatches = raw.matchedKeywords.length
+  const totalAttempted = exactMatches + partialMatches.length
+  return {
+    scorerId,
+    percentage: raw.percentage,
+    matchedKeywords: raw.matchedKeywords,
+    partialMatches,
+    synonymMatches: "synonymMatches" in raw ? raw.synonymMatches : [],
+    partialPhrases: "partialPhrases" in raw ? raw.partialPhrases : [],
+    missingKeywords: raw.missingKeywords,
+    totalKeywords: raw.totalKeywords,
+    exactMatches,
+    partialMatchesCount: partialMatches.length,
+    totalAttempted,
+    accuracyRate: raw.totalKeywords ? Math.round((totalAttempted / raw.totalKeywords) * 100) : 0,
+    contentWords: raw.contentWords,
+    userContentWords: raw.userContentWords,
+    contentMatches: raw.contentMatches,
+  }
+}
+
+const keywordScorer: Scorer = {
+  id: "keyword",
+  label: "Keyword Coverage",
+  description: "Matches the story's predefined keywords, falling back to extracted keywords when none are set.",
+  score({ story, transcript, weights, language }) {
+    const raw = story.keyWords.length > 0
+      ? computeMatchScoreWithKeywords(story.text, transcript, story.keyWords, story.synonyms, weights, language)
+      : computeMatchScore(story.text, transcript, weights, language)
+    return toScoreResult(this.id, raw)
+  },
+}
+
+const contentWordScorer: Scorer = {
+  id: "content-word",
+  label: "Content Words",
+  description: "Ignores predefined keywords and scores overlap with content words extracted from the story text.",
+  score({ story, transcript, weights, language }) {
+    return toScoreResult(this.id, computeMatchScore(story.text, transcript, weights, language))
+  },
+}
+
+const sequenceScorer: Scorer = {
+  id: "sequence",
+  label: "Sequence Aware",
+  description: "Keyword coverage plus whether the story's events were retold in the right order.",
+  score({ story, transcript, weights, language }) {
+    const raw = computeSequenceScore(story.text, transcript, story.keyWords, story.synonyms, weights, language)
+    return {
+      ...toScoreResult(this.id, raw),
+      sequence: {
+        keywordCoverageScore: raw.keywordCoverageScore,
+        eventOrderScore: raw.eventOrderScore,
+        eventsRecalled: raw.eventsRecalled,
+        eventsInOrder: raw.eventsInOrder,
+        totalEvents: raw.totalEvents,
+        eventAlignment: raw.eventAlignment,
+      },
+    }
+  },
+}
+
+const registry = new Map<string, Scorer>()
+
+export function registerScorer(scorer: Scorer) {
+  if (registry.has(scorer.id)) {
+    throw new Error(`Scorer "${scorer.id}" is already registered`)
+  }
+  registry.set(scorer.id, scorer)
+}
+
+export function listScorers(): Scorer[] {
+  return [...registry.values()]
+}
+
+// Unknown ids (e.g. from an old saved setting) fall back to the default scorer
+export function getScorer(id: string): Scorer {
+  return registry.get(id) ?? registry.get(DEFAULT_SCORER_ID)!
+}
+
+registerScorer(keywordScorer)
+registerScorer(contentWordScorer)
+registerScorer(sequenceScorer)
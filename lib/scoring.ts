@@ -1,47 +1,145 @@
-// Enhanced stopwords list for Versant test scoring - focuses on meaningful content words
-const STOPWORDS = new Set([
-  // Articles
-  "a", "an", "the",
-  // Conjunctions
-  "and", "or", "but", "if", "then", "than", "that", "this", "those", "these", "there",
-  // Common verbs (auxiliary/helping)
-  "is", "are", "was", "were", "be", "been", "being", "am", "do", "does", "did", "done", "doing",
-  "have", "has", "had", "will", "would", "shall", "should", "can", "could", "may", "might", "must",
-  // Prepositions
-  "for", "to", "of", "in", "on", "at", "by", "with", "as", "from", "into", "out", "about", "over", "after",
-  // Pronouns
-  "it", "its", "it's", "he", "she", "they", "we", "you", "i", "me", "him", "her", "them", "us",
-  "my", "your", "our", "their", "his", "hers", "ours", "theirs",
-  // Common adverbs/adjectives
-  "so", "very", "just", "also", "too", "much", "many", "more", "most", "some", "any", "all",
-  "few", "several", "such", "up", "down", "before", "again", "once", "when", "while",
-  "where", "why", "how",
-  // Common verbs (basic actions)
-  "got", "get", "getting", "go", "going", "went", "come", "came", "coming"
-])
-
-function normalize(text: string): string[] {
-  return (text || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
+import { DEFAULT_LANGUAGE, getLanguagePack } from "@/lib/languages"
+import { protectNumerals } from "@/lib/numbers"
+
+// Relative weight of each score component. Exam profiles override some of these; the rest keep the scorer's defaults.
+export type ScoringWeights = {
+  exact: number
+  partial: number
+  content: number
+  // Share of the sequence-aware score given to event order (the rest is keyword coverage)
+  order: number
+}
+
+const CONTENT_WORD_WEIGHTS: ScoringWeights = { exact: 0.6, partial: 0.2, content: 0.2, order: 0.3 }
+const KEYWORD_WEIGHTS: ScoringWeights = { exact: 0.7, partial: 0.2, content: 0.1, order: 0.3 }
+
+// Stopwords and stemming come from the story's language pack (lib/languages.ts); letters are matched
+// Unicode-wide so accented words ("café", "Straße") survive tokenising
+export function normalize(text: string, language: string = DEFAULT_LANGUAGE): string[] {
+  const tokens = protectNumerals((text || "").toLowerCase())
+    .replace(/[^\p{L}\p{N}.\s]/gu, " ")
     .split(/\s+/)
     .filter(Boolean)
-    .map(stem)
-    .filter((t) => t && !STOPWORDS.has(t))
+  return getLanguagePack(language).terms(tokens)
 }
 
-function stem(token: string): string {
-  // Simple stemming: just normalize to lowercase and remove common suffixes
-  let stemmed = token.toLowerCase()
-  
-  // Remove common suffixes
-  stemmed = stemmed.replace(/(ing|ed|ly|ness|ment|s)$/i, "")
-  
+// Comparison key for stemmed tokens so base forms line up with their inflections:
+// "ride"/"rid(ing)" -> "rid", "swim"/"swimm(ing)" -> "swim"
+function lemmaKey(stemmed: string): string {
   return stemmed
+    .replace(/([^aeiou])e$/, "$1")
+    .replace(/([b-df-hj-np-tv-z])\1$/, "$1")
+}
+
+export type SynonymMatch = {
+  keyword: string
+  heard: string
+}
+
+export type PartialPhrase = {
+  keyword: string
+  matchedWords: string[]
+  totalWords: number
+}
+
+// Max extra tokens allowed between consecutive words of a keyphrase ("dark grey clouds" still matches "dark clouds")
+const PHRASE_GAP = 1
+
+// Content words of a multi-word keyword, kept in their original spelling for display
+function phraseWords(keyword: string, language: string): string[] {
+  return keyword
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => normalize(word, language).length > 0)
+}
+
+// Positions of the phrase keys when they appear in order starting at `start`, with at most PHRASE_GAP tokens between them
+function phraseAt(sequence: string[], phrase: string[], start: number): number[] | null {
+  if (sequence[start] !== phrase[0]) return null
+  const positions = [start]
+  while (positions.length < phrase.length) {
+    const position = positions[positions.length - 1]
+    const window = sequence.slice(position + 1, position + 2 + PHRASE_GAP)
+    const offset = window.indexOf(phrase[positions.length])
+    if (offset === -1) return null
+    positions.push(position + offset + 1)
+  }
+  return positions
+}
+
+// n-gram search: does the phrase appear anywhere in the sequence?
+function containsPhrase(sequence: string[], phrase: string[]): boolean {
+  return sequence.some((_, start) => phraseAt(sequence, phrase, start) !== null)
+}
+
+export type KeywordStatus = "matched" | "partial" | "missing"
+
+export type HighlightSegment = {
+  text: string
+  status: KeywordStatus | null
+  keyword: string | null
 }
 
-export function extractKeywords(text: string, max = 15): string[] {
-  const tokens = normalize(text)
+const STATUS_RANK: Record<KeywordStatus, number> = { matched: 3, partial: 2, missing: 1 }
+
+// Split text into segments, tagging each word that belongs to one of the keywords with that keyword's status.
+// Words are compared the way scoring compares them (stems, irregular forms, numbers); phrases must appear in order.
+// Partial single-word keywords also tag near misses: words containing the keyword or contained in it.
+export function highlightKeywords(
+  text: string,
+  keywords: { keyword: string; status: KeywordStatus }[],
+  language: string = DEFAULT_LANGUAGE
+): HighlightSegment[] {
+  // Words with leading/trailing punctuation split off, so only the word itself is highlighted
+  const pieces: { text: string; keys: string[] }[] = []
+  for (const chunk of (text || "").split(/(\s+)/)) {
+    if (!chunk) continue
+    const [, lead, word, trail] = chunk.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u)!
+    if (lead) pieces.push({ text: lead, keys: [] })
+    if (word) pieces.push({ text: word, keys: normalize(word, language).map(lemmaKey) })
+    if (trail) pieces.push({ text: trail, keys: [] })
+  }
+
+  // Flatten to one key per content token, remembering which piece it came from
+  const sequence: string[] = []
+  const owner: number[] = []
+  pieces.forEach((piece, index) => {
+    for (const key of piece.keys) {
+      sequence.push(key)
+      owner.push(index)
+    }
+  })
+
+  const marks: ({ status: KeywordStatus; keyword: string } | null)[] = pieces.map(() => null)
+  const mark = (index: number, keyword: string, status: KeywordStatus) => {
+    const current = marks[index]
+    if (!current || STATUS_RANK[status] > STATUS_RANK[current.status]) marks[index] = { keyword, status }
+  }
+
+  for (const { keyword, status } of keywords) {
+    const keys = normalize(keyword, language).map(lemmaKey)
+    if (keys.length === 0) continue
+    if (keys.length > 1) {
+      sequence.forEach((_, start) => {
+        phraseAt(sequence, keys, start)?.forEach(position => mark(owner[position], keyword, status))
+      })
+      continue
+    }
+    const [key] = keys
+    sequence.forEach((token, position) => {
+      const near = status === "partial" && key.length >= 3 && token.length >= 3 && (token.includes(key) || key.includes(token))
+      if (token === key || near) mark(owner[position], keyword, status)
+    })
+  }
+
+  return pieces.map((piece, index) => ({
+    text: piece.text,
+    status: marks[index]?.status ?? null,
+    keyword: marks[index]?.keyword ?? null,
+  }))
+}
+
+export function extractKeywords(text: string, max = 15, language: string = DEFAULT_LANGUAGE): string[] {
+  const tokens = normalize(text, language)
   const freq = new Map<string, number>()
   
   // Count frequency and assign weights based on position and length
@@ -70,10 +168,17 @@ export function extractKeywords(text: string, max = 15): string[] {
 }
 
 // Versant-specific scoring function that focuses on meaningful content words
-export function computeMatchScore(story: string, transcript: string) {
+export function computeMatchScore(
+  story: string,
+  transcript: string,
+  weights: Partial<ScoringWeights> = {},
+  language: string = DEFAULT_LANGUAGE
+) {
+  const { exact, partial, content } = { ...CONTENT_WORD_WEIGHTS, ...weights }
+  const { stopwords } = getLanguagePack(language)
   // Extract meaningful keywords (excluding stopwords)
-  const storyKeywords = new Set(extractKeywords(story, 20))
-  const userTokens = new Set(normalize(transcript))
+  const storyKeywords = new Set(extractKeywords(story, 20, language))
+  const userTokens = new Set(normalize(transcript, language))
 
   // Find exact matches and partial matches
   const matched: string[] = []
@@ -102,12 +207,12 @@ export function computeMatchScore(story: string, transcript: string) {
   const partialMatchScore = storyKeywords.size ? (partialMatches.length / storyKeywords.size) * 0.5 : 0
   
   // Calculate meaningful word density in user response
-  const storyTokens = normalize(story)
-  const userTokensArray = normalize(transcript)
+  const storyTokens = normalize(story, language)
+  const userTokensArray = normalize(transcript, language)
   
   // Count meaningful words (non-stopwords) in both story and user response
-  const storyMeaningfulWords = storyTokens.filter(token => !STOPWORDS.has(token))
-  const userMeaningfulWords = userTokensArray.filter(token => !STOPWORDS.has(token))
+  const storyMeaningfulWords = storyTokens.filter(token => !stopwords.has(token))
+  const userMeaningfulWords = userTokensArray.filter(token => !stopwords.has(token))
   
   // Content word overlap
   const storyContentSet = new Set(storyMeaningfulWords)
@@ -127,7 +232,7 @@ export function computeMatchScore(story: string, transcript: string) {
   const lengthBonus = lengthRatio > 0.5 ? (lengthRatio - 0.5) * 0.2 : 0
   
   // Versant-style scoring: Weighted combination
-  const baseScore = (exactMatchScore * 0.6) + (partialMatchScore * 0.2) + (contentWordScore * 0.2) + lengthBonus
+  const baseScore = (exactMatchScore * exact) + (partialMatchScore * partial) + (contentWordScore * content) + lengthBonus
   
   // Apply Versant-friendly curve (more generous for practice)
   let finalScore = baseScore
@@ -145,6 +250,7 @@ export function computeMatchScore(story: string, transcript: string) {
     percentage,
     matchedKeywords: matched.sort(),
     missingKeywords: missing.sort(),
+    partialMatches: partialMatches.sort(),
     totalKeywords: storyKeywords.size,
     contentWords: storyContentSet.size,
     userContentWords: userContentSet.size,
@@ -153,31 +259,70 @@ export function computeMatchScore(story: string, transcript: string) {
 }
 
 // Enhanced scoring function that uses predefined keywords from stories.json
-export function computeMatchScoreWithKeywords(story: string, transcript: string, predefinedKeywords: string[]) {
+export function computeMatchScoreWithKeywords(
+  story: string,
+  transcript: string,
+  predefinedKeywords: string[],
+  synonyms: Record<string, string[]> = {},
+  weights: Partial<ScoringWeights> = {},
+  language: string = DEFAULT_LANGUAGE
+) {
+  const { exact, partial, content } = { ...KEYWORD_WEIGHTS, ...weights }
+  const pack = getLanguagePack(language)
+  const { stopwords } = pack
   // Keep original keywords for display, but also create stemmed versions for matching
   const originalKeywords = predefinedKeywords.map(k => k.toLowerCase().trim()).filter(Boolean)
-  const stemmedKeywords = originalKeywords.map(k => stem(k)).filter(Boolean)
-  const userTokens = new Set(normalize(transcript))
+  // Keywords are reduced the same way as the normalized transcript (English: numbers as digits, American spelling)
+  const stemmedKeywords = originalKeywords.map(k => pack.keywordTerm(k)).filter(Boolean)
+  const userSequence = normalize(transcript, language).map(lemmaKey)
+  const userTokens = new Set(normalize(transcript, language))
+  const userKeys = new Set(userSequence)
+  const synonymsByKeyword = new Map(
+    Object.entries(synonyms).map(([keyword, list]) => [keyword.toLowerCase().trim(), list])
+  )
   
   // Debug logging removed for production
 
-  // Find exact matches and partial matches
+  // Find exact matches, synonym matches and partial matches
   const matched: string[] = []
+  const synonymMatches: SynonymMatch[] = []
   const partialMatches: string[] = []
+  const partialPhrases: PartialPhrase[] = []
   
   // Simple and effective matching using final transcription
   for (let i = 0; i < originalKeywords.length; i++) {
     const originalKeyword = originalKeywords[i]
     const stemmedKeyword = stemmedKeywords[i]
+    const words = phraseWords(originalKeyword, language)
+    const isPhrase = words.length > 1
+    
+    // Check for exact matches (case-insensitive), including irregular forms of the same word.
+    // Keyphrases need all their words, in order, close together.
+    const hasExactMatch = isPhrase
+      ? containsPhrase(userSequence, words.map(word => lemmaKey(normalize(word, language)[0])))
+      : [...userTokens].some(token => 
+          token.toLowerCase() === originalKeyword.toLowerCase() || 
+          token === stemmedKeyword
+        ) || userKeys.has(lemmaKey(stemmedKeyword))
     
-    // Check for exact matches (case-insensitive)
-    const hasExactMatch = [...userTokens].some(token => 
-      token.toLowerCase() === originalKeyword.toLowerCase() || 
-      token === stemmedKeyword
-    )
+    // Story-specific synonyms count as a match but are reported separately
+    const heardSynonym = hasExactMatch ? undefined : (synonymsByKeyword.get(originalKeyword) || []).find(synonym => {
+      const synonymTokens = normalize(synonym, language)
+      return synonymTokens.length > 0 && synonymTokens.every(token => userKeys.has(lemmaKey(token)))
+    })
     
     if (hasExactMatch) {
       matched.push(originalKeyword)
+    } else if (heardSynonym) {
+      matched.push(originalKeyword)
+      synonymMatches.push({ keyword: originalKeyword, heard: heardSynonym })
+    } else if (isPhrase) {
+      // Partial credit for the words of the phrase that did come up
+      const matchedWords = words.filter(word => userKeys.has(lemmaKey(normalize(word, language)[0])))
+      if (matchedWords.length > 0) {
+        partialMatches.push(originalKeyword)
+        partialPhrases.push({ keyword: originalKeyword, matchedWords, totalWords: words.length })
+      }
     } else {
       // Check for partial matches (substring or stemmed)
       const hasPartialMatch = [...userTokens].some(token => {
@@ -202,15 +347,20 @@ export function computeMatchScoreWithKeywords(story: string, transcript: string,
 
   // Calculate scores
   const exactMatchScore = originalKeywords.length ? (matched.length / originalKeywords.length) : 0
-  const partialMatchScore = originalKeywords.length ? (partialMatches.length / originalKeywords.length) * 0.5 : 0
+  // Single-word partials earn full partial credit; phrases earn the share of their words that were said
+  const partialCredit = partialMatches.reduce((sum, keyword) => {
+    const phrase = partialPhrases.find(p => p.keyword === keyword)
+    return sum + (phrase ? phrase.matchedWords.length / phrase.totalWords : 1)
+  }, 0)
+  const partialMatchScore = originalKeywords.length ? (partialCredit / originalKeywords.length) * 0.5 : 0
   
   // Calculate meaningful word density in user response
-  const storyTokens = normalize(story)
-  const userTokensArray = normalize(transcript)
+  const storyTokens = normalize(story, language)
+  const userTokensArray = normalize(transcript, language)
   
   // Count meaningful words (non-stopwords) in both story and user response
-  const storyMeaningfulWords = storyTokens.filter(token => !STOPWORDS.has(token))
-  const userMeaningfulWords = userTokensArray.filter(token => !STOPWORDS.has(token))
+  const storyMeaningfulWords = storyTokens.filter(token => !stopwords.has(token))
+  const userMeaningfulWords = userTokensArray.filter(token => !stopwords.has(token))
   
   // Content word overlap
   const storyContentSet = new Set(storyMeaningfulWords)
@@ -230,7 +380,7 @@ export function computeMatchScoreWithKeywords(story: string, transcript: string,
   const lengthBonus = lengthRatio > 0.5 ? (lengthRatio - 0.5) * 0.2 : 0
   
   // Enhanced scoring for predefined keywords: Weight exact keyword matches more heavily
-  const baseScore = (exactMatchScore * 0.7) + (partialMatchScore * 0.2) + (contentWordScore * 0.1) + lengthBonus
+  const baseScore = (exactMatchScore * exact) + (partialMatchScore * partial) + (contentWordScore * content) + lengthBonus
   
   // Apply Versant-friendly curve (more generous for practice)
   let finalScore = baseScore
@@ -253,6 +403,8 @@ export function computeMatchScoreWithKeywords(story: string, transcript: string,
     matchedKeywords: matched.sort(),
     missingKeywords: missing.sort(),
     partialMatches: partialMatches.sort(),
+    synonymMatches: synonymMatches.sort((a, b) => (a.keyword < b.keyword ? -1 : 1)),
+    partialPhrases: partialPhrases.sort((a, b) => (a.keyword < b.keyword ? -1 : 1)),
     totalKeywords: originalKeywords.length,
     contentWords: storyContentSet.size,
     userContentWords: userContentSet.size,
@@ -263,3 +415,124 @@ export function computeMatchScoreWithKeywords(story: string, transcript: string,
     partialMatchesCount: partialMatches.length
   }
 }
+
+export function splitIntoSentences(text: string): string[] {
+  const cleaned = (text || "").replace(/\s+/g, " ").trim()
+  if (!cleaned) return []
+
+  // More robust sentence splitting for the story data format
+  // Split on periods, exclamation marks, question marks followed by space or end of string
+  const sentences = cleaned.split(/(?<=[.!?])(?=\s|$)/)
+
+  // Filter out empty strings and trim each sentence
+  return sentences
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .filter(s => !/^\d+\.$/.test(s)) // Remove standalone numbers like "1." "2." etc.
+}
+
+// Length of the longest strictly increasing subsequence (patience sorting)
+function longestIncreasingRun(values: number[]): number {
+  const tails: number[] = []
+  for (const value of values) {
+    let lo = 0
+    let hi = tails.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (tails[mid] < value) lo = mid + 1
+      else hi = mid
+    }
+    tails[lo] = value
+  }
+  return tails.length
+}
+
+export type EventAlignment = {
+  sentence: string
+  recalled: boolean
+  // Token position in the transcript where this event was retold, or null when it wasn't
+  position: number | null
+}
+
+// Align each story sentence (an "event") to where it shows up in the transcript
+export function alignEvents(story: string, transcript: string, language: string = DEFAULT_LANGUAGE): EventAlignment[] {
+  const sentences = splitIntoSentences(story)
+  const sentenceTokens = sentences.map(sentence => new Set(normalize(sentence, language)))
+  const userTokens = normalize(transcript, language)
+
+  // First position of each token in the transcript
+  const firstSeen = new Map<string, number>()
+  userTokens.forEach((token, index) => {
+    if (!firstSeen.has(token)) firstSeen.set(token, index)
+  })
+
+  // How many sentences each token appears in - tokens unique to one sentence are better anchors
+  const sentenceFrequency = new Map<string, number>()
+  for (const tokens of sentenceTokens) {
+    for (const token of tokens) {
+      sentenceFrequency.set(token, (sentenceFrequency.get(token) || 0) + 1)
+    }
+  }
+
+  return sentences.map((sentence, i) => {
+    const tokens = [...sentenceTokens[i]]
+    const matched = tokens.filter(token => firstSeen.has(token))
+    // Require roughly a third of the sentence's content words before counting it as retold
+    const needed = Math.max(1, Math.ceil(tokens.length * 0.3))
+    if (tokens.length === 0 || matched.length < needed) {
+      return { sentence, recalled: false, position: null }
+    }
+
+    const distinctive = matched.filter(token => sentenceFrequency.get(token) === 1)
+    const anchors = (distinctive.length > 0 ? distinctive : matched)
+      .map(token => firstSeen.get(token)!)
+      .sort((a, b) => a - b)
+
+    return { sentence, recalled: true, position: anchors[Math.floor(anchors.length / 2)] }
+  })
+}
+
+// Sequence-aware scoring: keyword coverage plus how well the retell preserves the story's event order
+export function computeSequenceScore(
+  story: string,
+  transcript: string,
+  predefinedKeywords: string[] = [],
+  synonyms: Record<string, string[]> = {},
+  weights: Partial<ScoringWeights> = {},
+  language: string = DEFAULT_LANGUAGE
+) {
+  const coverage = predefinedKeywords.length > 0
+    ? computeMatchScoreWithKeywords(story, transcript, predefinedKeywords, synonyms, weights, language)
+    : computeMatchScore(story, transcript, weights, language)
+  const order = weights.order ?? KEYWORD_WEIGHTS.order
+
+  const eventAlignment = alignEvents(story, transcript, language)
+  const positions = eventAlignment
+    .filter(event => event.recalled)
+    .map(event => event.position!)
+  const eventsRecalled = positions.length
+  const eventsInOrder = longestIncreasingRun(positions)
+  const totalEvents = eventAlignment.length
+
+  // Pure ordering quality of what was recalled
+  const eventOrderScore = eventsRecalled ? Math.round((eventsInOrder / eventsRecalled) * 100) : 0
+  // Share of the whole story retold in the right order
+  const sequenceCoverage = totalEvents ? eventsInOrder / totalEvents : 0
+
+  const percentage = Math.round(Math.min(100, Math.max(0, coverage.percentage * (1 - order) + sequenceCoverage * 100 * order)))
+
+  return {
+    ...coverage,
+    percentage,
+    keywordCoverageScore: coverage.percentage,
+    eventOrderScore,
+    eventsRecalled,
+    eventsInOrder,
+    totalEvents,
+    eventAlignment
+  }
+}
+
+export type ContentWordScore = ReturnType<typeof computeMatchScore>
+export type KeywordScore = ReturnType<typeof computeMatchScoreWithKeywords>
+export type SequenceScore = ReturnType<typeof computeSequenceScore>
@@ -0,0 +1,80 @@
+// British/Commonwealth spellings mapped to American ones before stemming, so a story that says "realised"
+// matches a retell transcribed as "realized" (and "colour" matches "color"). Recognizers spell by locale
+// (en-GB, en-AU and en-IN output British spellings) while stories may use either, so both sides are
+// brought to one spelling whatever locale is selected.
+
+// -ise verbs (realise -> realize), with their -ised/-ising/-isation forms
+const ISE_VERBS = [
+  "apologis", "authoris", "categoris", "characteris", "civilis", "criticis", "emphasis", "familiaris",
+  "finalis", "harmonis", "hospitalis", "idealis", "legalis", "maximis", "memoris", "minimis", "mobilis",
+  "modernis", "normalis", "organis", "personalis", "prioritis", "publicis", "realis", "recognis",
+  "socialis", "specialis", "standardis", "summaris", "symbolis", "sympathis", "utilis", "visualis",
+]
+const ISE_SUFFIXES = ["e", "es", "ed", "ing", "er", "ers", "ation", "ations"]
+
+// -yse verbs (analyse -> analyze)
+const YSE_VERBS = ["analys", "paralys", "catalys"]
+const YSE_SUFFIXES = ["e", "es", "ed", "ing"]
+
+// -our words (colour -> color), with common derived forms
+const OUR_WORDS = [
+  "arm", "behavi", "cand", "clam", "col", "endeav", "fav", "flav", "harb", "hon", "hum", "lab",
+  "neighb", "od", "rig", "rum", "sav", "splend", "tum", "val", "vap", "vig",
+]
+const OUR_SUFFIXES = ["", "s", "ed", "ing", "ful", "less", "ite", "ites", "able", "ably", "er", "ers", "hood", "hoods", "ist"]
+
+// -re words (centre -> center)
+const RE_WORDS = ["cent", "theat", "met", "lit", "fib", "calib", "somb", "spect", "meag", "lust", "manoeuv"]
+const RE_SUFFIXES: [british: string, american: string][] = [["re", "er"], ["res", "ers"], ["red", "ered"]]
+
+// Verbs that double a final "l" in British spelling (travelled -> traveled)
+const DOUBLE_L_VERBS = ["travel", "cancel", "label", "model", "fuel", "quarrel", "signal", "level", "marvel", "tunnel", "counsel", "dial", "total"]
+const DOUBLE_L_SUFFIXES = ["ed", "ing", "er", "ers", "or", "ors"]
+
+const OTHER_SPELLINGS: Record<string, string> = {
+  grey: "gray", greys: "grays",
+  aeroplane: "airplane", aeroplanes: "airplanes",
+  aluminium: "aluminum",
+  jewellery: "jewelry",
+  pyjamas: "pajamas",
+  mould: "mold", mouldy: "moldy",
+  plough: "plow", ploughed: "plowed",
+  sceptical: "skeptical",
+  defence: "defense", offence: "offense",
+  catalogue: "catalog", catalogues: "catalogs",
+  dialogue: "dialog", dialogues: "dialogs",
+  programme: "program", programmes: "programs",
+  manoeuvre: "maneuver", manoeuvres: "maneuvers",
+  enrol: "enroll", enrolment: "enrollment",
+  fulfil: "fulfill", fulfilment: "fulfillment",
+  skilful: "skillful",
+  practise: "practice", practised: "practiced", practising: "practicing",
+  mum: "mom", mums: "moms",
+}
+
+function buildSpellingTable(): Map<string, string> {
+  const table = new Map<string, string>(Object.entries(OTHER_SPELLINGS))
+  for (const stem of ISE_VERBS) {
+    for (const suffix of ISE_SUFFIXES) table.set(stem + suffix, stem.slice(0, -1) + "z" + suffix)
+  }
+  for (const stem of YSE_VERBS) {
+    for (const suffix of YSE_SUFFIXES) table.set(stem + suffix, stem.slice(0, -1) + "z" + suffix)
+  }
+  for (const stem of OUR_WORDS) {
+    for (const suffix of OUR_SUFFIXES) table.set(`${stem}our${suffix}`, `${stem}or${suffix}`)
+  }
+  for (const stem of RE_WORDS) {
+    for (const [british, american] of RE_SUFFIXES) table.set(stem + british, stem + american)
+  }
+  for (const verb of DOUBLE_L_VERBS) {
+    for (const suffix of DOUBLE_L_SUFFIXES) table.set(`${verb}l${suffix}`, verb + suffix)
+  }
+  return table
+}
+
+const AMERICAN_SPELLINGS = buildSpellingTable()
+
+// Lowercase token in, American spelling out (unchanged when it isn't a known British spelling)
+export function toAmericanSpelling(token: string): string {
+  return AMERICAN_SPELLINGS.get(token) ?? token
+}
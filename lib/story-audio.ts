@@ -0,0 +1,54 @@
+// Playback of a pre-recorded story narration (a story's optional `audioUrl`), used instead of TTS
+
+export type StoryAudioPlayback = {
+  // Resolves when the clip ends or is stopped; rejects if it can't be loaded or played
+  done: Promise<void>
+  pause(): void
+  resume(): void
+  stop(): void
+}
+
+export function playStoryAudio(url: string, volume = 1): StoryAudioPlayback {
+  const audio = new Audio(url)
+  audio.preload = "auto"
+  audio.volume = Math.min(1, Math.max(0, volume))
+
+  let settled = false
+  let finish: () => void = () => {}
+  let fail: (error: Error) => void = () => {}
+
+  const done = new Promise<void>((resolve, reject) => {
+    finish = () => {
+      if (settled) return
+      settled = true
+      resolve()
+    }
+    fail = (error) => {
+      if (settled) return
+      settled = true
+      reject(error)
+    }
+  })
+
+  audio.onended = () => finish()
+  audio.onerror = () => fail(new Error(`Story audio could not be loaded from ${url}`))
+  // Autoplay policies reject play() without a user gesture; the caller falls back to TTS in that case too
+  audio.play().catch((error) => fail(error instanceof Error ? error : new Error(String(error))))
+
+  return {
+    done,
+    pause() {
+      if (!settled) audio.pause()
+    },
+    resume() {
+      if (!settled) audio.play().catch(() => {})
+    },
+    stop() {
+      audio.onerror = null
+      audio.pause()
+      audio.removeAttribute("src")
+      audio.load()
+      finish()
+    },
+  }
+}
@@ -0,0 +1,331 @@
+import { z } from "zod"
+import { DEFAULT_LANGUAGE, getLanguagePack, isSupportedLanguage, listLanguagePacks } from "@/lib/languages"
+import { computeMatchScoreWithKeywords, extractKeywords, normalize, splitIntoSentences } from "@/lib/scoring"
+import type { StoryDifficulty, StoryTurn, StoryWithDifficulty } from "@/lib/types"
+
+export type StoryBank = {
+  // Language pack id (lib/languages.ts) used to score every story in the bank
+  language: string
+  stories: StoryWithDifficulty[]
+}
+
+export type StoryBankSource = {
+  language: string
+  label: string
+  url: string
+}
+
+// One bank per language under public/data; English keeps the original file name
+export const STORY_BANKS: StoryBankSource[] = listLanguagePacks().map((pack) => ({
+  language: pack.id,
+  label: pack.label,
+  url: pack.id === DEFAULT_LANGUAGE ? "/data/stories.json" : `/data/stories.${pack.id}.json`,
+}))
+
+export function getStoryBankSource(language: string): StoryBankSource {
+  return STORY_BANKS.find((bank) => bank.language === language) ?? STORY_BANKS[0]
+}
+
+export const storySchema = z.object({
+  id: z.number().int().positive(),
+  text: z.string().trim().min(1, "Story text is empty"),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  wordCount: z.number().int().nonnegative(),
+  keyWords: z.array(z.string().trim().min(1, "Keyword is empty")).default([]),
+  synonyms: z.record(z.array(z.string().trim().min(1, "Synonym is empty"))).default({}),
+  audioUrl: z.string().trim().min(1, "Audio URL is empty").optional(),
+  turns: z
+    .array(
+      z.object({
+        speaker: z.string().trim().min(1, "Speaker is empty"),
+        text: z.string().trim().min(1, "Turn text is empty"),
+      }),
+    )
+    .min(1, "Turns list is empty")
+    .optional(),
+})
+
+export const storyBankSchema = z
+  .object({
+    language: z
+      .string()
+      .trim()
+      .refine(isSupportedLanguage, (language) => ({
+        message: `Unsupported language "${language}" (expected one of ${listLanguagePacks().map((pack) => pack.id).join(", ")})`,
+      }))
+      .default(DEFAULT_LANGUAGE),
+    stories: z.array(storySchema),
+  })
+  .superRefine((bank, ctx) => {
+    const seen = new Set<number>()
+    bank.stories.forEach((story, index) => {
+      if (seen.has(story.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["stories", index, "id"],
+          message: `Duplicate story id ${story.id}`,
+        })
+      }
+      seen.add(story.id)
+    })
+  })
+
+export type StoryBankIssue = {
+  severity: "error" | "warning"
+  path: string
+  message: string
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (out, part) => (typeof part === "number" ? `${out}[${part}]` : out ? `${out}.${part}` : part),
+    "",
+  )
+}
+
+// Parse stories.json at runtime; throws with a readable summary of what is wrong
+export function parseStoryBank(data: unknown): StoryBank {
+  const result = storyBankSchema.safeParse(data)
+  if (!result.success) {
+    const details = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${formatPath(issue.path)}: ${issue.message}`)
+      .join("; ")
+    const more = result.error.issues.length > 3 ? ` (+${result.error.issues.length - 3} more)` : ""
+    throw new Error(`Story bank is invalid - ${details}${more}`)
+  }
+  return result.data
+}
+
+// Full check used by `npm run validate:stories`: schema and duplicate ids, plus content drift
+export function validateStoryBank(data: unknown): StoryBankIssue[] {
+  const result = storyBankSchema.safeParse(data)
+  if (!result.success) {
+    return result.error.issues.map((issue) => ({
+      severity: "error" as const,
+      path: formatPath(issue.path),
+      message: issue.message,
+    }))
+  }
+
+  const issues: StoryBankIssue[] = []
+  result.data.stories.forEach((story, index) => {
+    const actual = countWords(story.text)
+    if (story.wordCount !== actual) {
+      issues.push({
+        severity: "error",
+        path: `stories[${index}].wordCount`,
+        message: `Story ${story.id} says ${story.wordCount} words but the text has ${actual}`,
+      })
+    }
+
+    const found = keywordsInText(story.text, story.keyWords, result.data.language)
+    story.keyWords.forEach((keyword, k) => {
+      if (!found.includes(keyword)) {
+        issues.push({
+          severity: "error",
+          path: `stories[${index}].keyWords[${k}]`,
+          message: `Story ${story.id} keyword "${keyword}" does not appear in the text`,
+        })
+      }
+    })
+
+    // Turns are what gets read aloud and `text` is what gets scored, so they must say the same thing
+    if (story.turns && !turnsMatchText(story.turns, story.text)) {
+      issues.push({
+        severity: "error",
+        path: `stories[${index}].turns`,
+        message: `Story ${story.id} turns do not add up to its text`,
+      })
+    }
+
+    // A synonym that scores the same as one of the keywords can never add a match
+    const keywordTerms = story.keyWords.map((k) => normalize(k, result.data.language).join(" "))
+    for (const [keyword, list] of Object.entries(story.synonyms)) {
+      if (!story.keyWords.some((k) => k.toLowerCase().trim() === keyword.toLowerCase().trim())) {
+        issues.push({
+          severity: "warning",
+          path: `stories[${index}].synonyms.${keyword}`,
+          message: `Story ${story.id} has synonyms for "${keyword}", which is not one of its keywords`,
+        })
+      }
+      list.forEach((synonym, s) => {
+        const terms = normalize(synonym, result.data.language).join(" ")
+        if (terms && keywordTerms.includes(terms)) {
+          issues.push({
+            severity: "warning",
+            path: `stories[${index}].synonyms.${keyword}[${s}]`,
+            message: `Story ${story.id} synonym "${synonym}" for "${keyword}" is already one of its keywords`,
+          })
+        }
+      })
+    }
+  })
+  return issues
+}
+
+// The keywords the story's own text matches; one it can't match will never be matched by a retell either
+export function keywordsInText(text: string, keywords: string[], language: string = DEFAULT_LANGUAGE): string[] {
+  const { matchedKeywords } = computeMatchScoreWithKeywords(text, text, keywords, {}, {}, language)
+  return keywords.filter((keyword) => matchedKeywords.includes(keyword.toLowerCase().trim()))
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+// Turns joined back together say exactly the story text (whitespace aside)
+export function turnsMatchText(turns: StoryTurn[], text: string): boolean {
+  return collapseWhitespace(turns.map((turn) => turn.text).join(" ")) === collapseWhitespace(text)
+}
+
+export function countWords(text: string): number {
+  return (text || "").split(/\s+/).filter(Boolean).length
+}
+
+// Categorize story difficulty based on text characteristics
+export function categorizeStoryDifficulty(text: string): StoryDifficulty {
+  const wordCount = countWords(text)
+  const sentenceCount = Math.max(1, splitIntoSentences(text).length)
+  const avgWordsPerSentence = wordCount / sentenceCount
+
+  // Calculate complexity score based on multiple factors
+  const complexityScore =
+    (wordCount / 100) * 0.4 +           // Length factor (40%)
+    (avgWordsPerSentence / 20) * 0.3 +  // Sentence complexity (30%)
+    (text.match(/[A-Z]{2,}/g)?.length || 0) * 0.1 + // Proper nouns (10%)
+    (text.match(/[.,!?;:]/g)?.length || 0) / Math.max(1, wordCount) * 0.2 // Punctuation density (20%)
+
+  // Rough heuristic, only a starting suggestion: the bundled stories' hand-set labels don't follow this
+  // score closely (it agrees on roughly three in four), so authors should still pick the difficulty themselves
+  if (complexityScore < 0.45) return "easy"
+  if (complexityScore < 0.65) return "medium"
+  return "hard"
+}
+
+// Keyword suggestions in the story's own spelling (extractKeywords works on stems like "return" for "returned").
+// Only words scoring can match are offered: possessives lose their "'s", other apostrophe words (contractions)
+// and stopwords the stemmer lets through ("was") are skipped, and a hyphenated word ("second-hand") stands in
+// for its parts. Everything left must pass the same keyword-in-text check as validate:stories.
+export function suggestKeywords(text: string, max = 15, language: string = DEFAULT_LANGUAGE): string[] {
+  const { stopwords } = getLanguagePack(language)
+  const surfaceForms = new Map<string, string>()
+  for (const word of text.split(/\s+/)) {
+    const cleaned = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "").replace(/['\u2019]s$/iu, "")
+    if (!cleaned || /['\u2019]/u.test(cleaned)) continue
+    const compound = /^[\p{L}\p{N}]+(-[\p{L}\p{N}]+)+$/u.test(cleaned)
+    for (const part of cleaned.split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+      const [token] = normalize(part, language)
+      const current = token ? surfaceForms.get(token) : undefined
+      if (token && (!current || (compound && !current.includes("-")))) surfaceForms.set(token, compound ? cleaned : part)
+    }
+  }
+  const candidates = extractKeywords(text, Infinity, language)
+    .map((token) => surfaceForms.get(token))
+    .filter((surface): surface is string => !!surface && !stopwords.has(surface.toLowerCase()))
+  return keywordsInText(text, [...new Set(candidates)], language).slice(0, max)
+}
+
+export function nextStoryId(stories: StoryWithDifficulty[]): number {
+  return stories.reduce((max, story) => Math.max(max, story.id), 0) + 1
+}
+
+// Leading "12." / "12)" numbering as used in public/data/stories.txt
+const NUMBERED_LINE = /^\s*\d+[.)]\s*/
+
+// Parse a "1.Text…" numbered list into story texts. Lines without a number continue the previous story.
+export function parseNumberedStories(source: string): string[] {
+  const stories: string[] = []
+  for (const line of source.split(/\r?\n/)) {
+    if (NUMBERED_LINE.test(line)) {
+      stories.push(line.replace(NUMBERED_LINE, ""))
+    } else if (line.trim() && stories.length > 0) {
+      stories[stories.length - 1] += ` ${line.trim()}`
+    }
+  }
+  return stories
+    .map((text) => splitIntoSentences(text).join(" "))
+    .filter(Boolean)
+}
+
+// Loose identity for a story text so re-imports are recognised despite quote style or spacing differences
+function storyFingerprint(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[^\p{L}\p{N}]/gu, "")
+}
+
+export function createStory(text: string, id: number, language: string = DEFAULT_LANGUAGE): StoryWithDifficulty {
+  return {
+    id,
+    text,
+    difficulty: categorizeStoryDifficulty(text),
+    wordCount: countWords(text),
+    keyWords: suggestKeywords(text, 15, language),
+    synonyms: {},
+  }
+}
+
+export type StoryImportResult = {
+  bank: StoryBank
+  added: StoryWithDifficulty[]
+  // Texts already present in the bank, left untouched
+  skipped: string[]
+}
+
+// Append imported texts with fresh ids; existing stories (and their ids) are never modified
+export function mergeImportedStories(bank: StoryBank, texts: string[]): StoryImportResult {
+  const known = new Set(bank.stories.map((story) => storyFingerprint(story.text)))
+  const stories = [...bank.stories]
+  const added: StoryWithDifficulty[] = []
+  const skipped: string[] = []
+
+  for (const text of texts) {
+    const fingerprint = storyFingerprint(text)
+    if (known.has(fingerprint)) {
+      skipped.push(text)
+      continue
+    }
+    known.add(fingerprint)
+    const story = createStory(text, nextStoryId(stories), bank.language)
+    stories.push(story)
+    added.push(story)
+  }
+
+  return { bank: { ...bank, stories }, added, skipped }
+}
+
+// Serialize one story in the same layout as public/data/stories.json (one line per keyword list)
+export function serializeStory(story: StoryWithDifficulty, indent = "    "): string {
+  const pad = `${indent}  `
+  const fields = [
+    `${pad}"id": ${story.id}`,
+    `${pad}"text": ${JSON.stringify(story.text)}`,
+    `${pad}"difficulty": ${JSON.stringify(story.difficulty)}`,
+    `${pad}"wordCount": ${story.wordCount}`,
+    `${pad}"keyWords": ${JSON.stringify(story.keyWords).replace(/","/g, "\", \"")}`,
+  ]
+  const synonymEntries = Object.entries(story.synonyms || {})
+  if (synonymEntries.length > 0) {
+    const lines = synonymEntries.map(
+      ([keyword, list]) => `${pad}  ${JSON.stringify(keyword)}: ${JSON.stringify(list).replace(/","/g, "\", \"")}`,
+    )
+    fields.push(`${pad}"synonyms": {\n${lines.join(",\n")}\n${pad}}`)
+  }
+  if (story.audioUrl) fields.push(`${pad}"audioUrl": ${JSON.stringify(story.audioUrl)}`)
+  if (story.turns?.length) {
+    const lines = story.turns.map(
+      (turn) => `${pad}  { "speaker": ${JSON.stringify(turn.speaker)}, "text": ${JSON.stringify(turn.text)} }`,
+    )
+    fields.push(`${pad}"turns": [\n${lines.join(",\n")}\n${pad}]`)
+  }
+  return `${indent}{\n${fields.join(",\n")}\n${indent}}`
+}
+
+// The English bank predates languages, so "language" is only written for the others
+export function serializeStoryBank(bank: StoryBank): string {
+  const stories = bank.stories.map((story) => serializeStory(story))
+  const language = bank.language && bank.language !== DEFAULT_LANGUAGE ? `  "language": ${JSON.stringify(bank.language)},\n` : ""
+  return `{\n${language}  "stories": [\n${stories.join(",\n")}\n  ]\n}`
+}
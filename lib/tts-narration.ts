@@ -0,0 +1,252 @@
+import { splitIntoSentences } from "@/lib/scoring"
+
+import type { StoryTurn } from "@/lib/types"
+
+// Story narration with speechSynthesis, one utterance per sentence. Short utterances keep Chrome from
+// silently cutting speech off after ~15 seconds, and let a study session step back a sentence.
+
+export type SpeechChunk = {
+  text: string
+  // Index of the story sentence this chunk belongs to; a long sentence is split into several chunks
+  sentenceIndex: number
+}
+
+// A stretch of the story read in one voice: the whole story, or one speaker turn of a dialogue
+export type NarrationPart = {
+  text: string
+  voice: SpeechSynthesisVoice | null
+  pitch?: number
+}
+
+export type TtsNarrationOptions = {
+  lang: string
+  rate: number
+  volume: number
+  // Base pitch; parts with their own pitch are scaled by it
+  pitch?: number
+  // Called when a sentence starts playing (from utterance start and boundary events)
+  onSentence?: (index: number, total: number) => void
+}
+
+export type TtsNarration = {
+  // Resolves once the last sentence has been spoken or narration is stopped; rejects on a synthesis error
+  done: Promise<void>
+  sentenceCount: number
+  pause(): void
+  resume(): void
+  stop(): void
+  // Go back to the start of the sentence before the current one (or restart the first sentence)
+  replayPrevious(): void
+}
+
+export const NARRATOR_SPEAKER = "narrator"
+
+// Pitches that tell characters apart when there are fewer distinct voices than characters
+const CHARACTER_PITCHES = [1.0, 0.8, 1.2]
+
+// The narrator keeps the narrator voice; characters take the character voices in order of first appearance,
+// cycling through them (with a different pitch each round) when there are more characters than voices
+export function assignSpeakerVoices(
+  turns: StoryTurn[],
+  narratorVoice: SpeechSynthesisVoice | null,
+  characterVoices: SpeechSynthesisVoice[],
+): NarrationPart[] {
+  const voices = characterVoices.length > 0 ? characterVoices : [narratorVoice]
+  const characters: string[] = []
+  return turns.map((turn) => {
+    const speaker = turn.speaker.toLowerCase()
+    if (speaker === NARRATOR_SPEAKER) return { text: turn.text, voice: narratorVoice }
+    if (!characters.includes(speaker)) characters.push(speaker)
+    const order = characters.indexOf(speaker)
+    // With only the narrator's voice to go round, every character needs a pitch other than the narrator's
+    const pitch =
+      characterVoices.length > 0
+        ? CHARACTER_PITCHES[Math.floor(order / voices.length) % CHARACTER_PITCHES.length]
+        : CHARACTER_PITCHES[1 + (order % (CHARACTER_PITCHES.length - 1))]
+    return { text: turn.text, voice: voices[order % voices.length], pitch }
+  })
+}
+
+// Sentences longer than maxLength are broken at clause punctuation, or between words as a last resort
+export function splitIntoReadableChunks(text: string, maxLength: number = 150): SpeechChunk[] {
+  const chunks: SpeechChunk[] = []
+  splitIntoSentences(text).forEach((sentence, sentenceIndex) => {
+    const pieces = sentence
+      .split(/(?<=[,;:])\s+/)
+      .flatMap((clause) => (clause.length > maxLength ? clause.split(/\s+/) : [clause]))
+    let current = ""
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 1 > maxLength) {
+        chunks.push({ text: current, sentenceIndex })
+        current = piece
+      } else {
+        current += (current ? " " : "") + piece
+      }
+    }
+    if (current) chunks.push({ text: current, sentenceIndex })
+  })
+
+  // Text without any sentence content (shouldn't happen) is spoken as a single chunk
+  return chunks.length > 0 ? chunks : [{ text, sentenceIndex: 0 }]
+}
+
+export function synthesisErrorMessage(error: SpeechSynthesisErrorCode): string {
+  switch (error) {
+    case "not-allowed":
+      return "Speech synthesis not allowed - check permissions"
+    case "audio-busy":
+      return "Audio device busy - try again"
+    case "audio-hardware":
+      return "Audio hardware not available"
+    case "network":
+      return "Network error during speech synthesis"
+    case "synthesis-unavailable":
+      return "Speech synthesis engine not available"
+    case "synthesis-failed":
+      return "Speech synthesis failed"
+    case "language-unavailable":
+      return "Language not available for synthesis"
+    case "voice-unavailable":
+      return "Selected voice not available"
+    case "text-too-long":
+      return "Text too long for synthesis"
+    case "invalid-argument":
+      return "Invalid argument for speech synthesis"
+    default:
+      return `Speech synthesis error: ${error}`
+  }
+}
+
+// Chrome's network voices still stop mid-utterance after a while unless the engine is nudged
+const KEEP_ALIVE_MS = 10_000
+
+// Sentences are numbered across parts; a sentence split between two speakers counts once per speaker
+function chunkParts(parts: NarrationPart[]): (SpeechChunk & NarrationPart)[] {
+  const chunks: (SpeechChunk & NarrationPart)[] = []
+  let offset = 0
+  for (const part of parts) {
+    const partChunks = splitIntoReadableChunks(part.text)
+    for (const chunk of partChunks) {
+      chunks.push({ ...part, text: chunk.text, sentenceIndex: offset + chunk.sentenceIndex })
+    }
+    offset += partChunks[partChunks.length - 1].sentenceIndex + 1
+  }
+  return chunks
+}
+
+export function startTtsNarration(parts: NarrationPart[], options: TtsNarrationOptions): TtsNarration {
+  const synthesis = window.speechSynthesis
+  const chunks = chunkParts(parts)
+  if (chunks.length === 0) chunks.push({ text: "", voice: null, sentenceIndex: 0 })
+  const sentenceCount = chunks[chunks.length - 1].sentenceIndex + 1
+
+  let position = 0
+  let currentSentence = -1
+  // Bumped whenever playback jumps or stops, so events from cancelled utterances are ignored
+  let generation = 0
+  let paused = false
+  let settled = false
+  let finish: () => void = () => {}
+  let fail: (error: Error) => void = () => {}
+
+  const done = new Promise<void>((resolve, reject) => {
+    finish = () => {
+      if (settled) return
+      settled = true
+      window.clearInterval(keepAlive)
+      resolve()
+    }
+    fail = (error) => {
+      if (settled) return
+      settled = true
+      window.clearInterval(keepAlive)
+      reject(error)
+    }
+  })
+
+  const keepAlive = window.setInterval(() => {
+    if (!paused && synthesis.speaking && !chunks[position].voice?.localService) {
+      synthesis.pause()
+      synthesis.resume()
+    }
+  }, KEEP_ALIVE_MS)
+
+  const enterSentence = (index: number) => {
+    if (index === currentSentence) return
+    currentSentence = index
+    options.onSentence?.(index, sentenceCount)
+  }
+
+  const speakFrom = (index: number) => {
+    const run = generation
+    if (index >= chunks.length) {
+      finish()
+      return
+    }
+    position = index
+    const chunk = chunks[index]
+    const utterance = new SpeechSynthesisUtterance(chunk.text)
+    utterance.lang = options.lang
+    utterance.rate = options.rate
+    utterance.volume = options.volume
+    utterance.pitch = Math.min(2, (chunk.pitch ?? 1.0) * (options.pitch ?? 1.0))
+    if (chunk.voice) utterance.voice = chunk.voice
+
+    utterance.onstart = () => {
+      if (run === generation) enterSentence(chunk.sentenceIndex)
+    }
+    // Not every voice fires boundary events; those that do confirm the sentence actually being spoken
+    utterance.onboundary = () => {
+      if (run === generation) enterSentence(chunk.sentenceIndex)
+    }
+    utterance.onend = () => {
+      if (run === generation) speakFrom(index + 1)
+    }
+    utterance.onerror = (event) => {
+      // cancel() reports "interrupted"/"canceled" for the utterance it cut off
+      if (run !== generation || event.error === "interrupted" || event.error === "canceled") return
+      fail(new Error(synthesisErrorMessage(event.error)))
+    }
+
+    synthesis.speak(utterance)
+  }
+
+  const cancelSpeech = () => {
+    generation++
+    // Chrome keeps speechSynthesis paused across cancel(), which would mute whatever is spoken next
+    if (paused) synthesis.resume()
+    synthesis.cancel()
+  }
+
+  synthesis.cancel()
+  speakFrom(0)
+
+  return {
+    done,
+    sentenceCount,
+    pause() {
+      if (settled || paused) return
+      paused = true
+      synthesis.pause()
+    },
+    resume() {
+      if (settled || !paused) return
+      paused = false
+      synthesis.resume()
+    },
+    stop() {
+      if (settled) return
+      cancelSpeech()
+      paused = false
+      finish()
+    },
+    replayPrevious() {
+      if (settled) return
+      const target = Math.max(0, (currentSentence === -1 ? chunks[position].sentenceIndex : currentSentence) - 1)
+      cancelSpeech()
+      paused = false
+      currentSentence = -1
+      speakFrom(chunks.findIndex((chunk) => chunk.sentenceIndex === target))
+    },
+  }
+}
@@ -0,0 +1,75 @@
+import type { ScoreResult } from "@/lib/scorers"
+
+export type StoryDifficulty = "easy" | "medium" | "hard"
+
+// One speaker's stretch of a dialogue story; "narrator" is read in the narrator voice
+export type StoryTurn = {
+  speaker: string
+  text: string
+}
+
+export type StoryWithDifficulty = {
+  id: number
+  text: string
+  difficulty: StoryDifficulty
+  wordCount: number
+  keyWords: string[]
+  // Alternative words accepted for a keyword, keyed by the keyword (e.g. { bike: ["bicycle"] })
+  synonyms: Record<string, string[]>
+  // Pre-recorded narration (e.g. "/audio/story-1.mp3"); the story is read with TTS when absent or unplayable
+  audioUrl?: string
+  // Speaker turns, in order, that together make up `text`; stories without them are read by one voice
+  turns?: StoryTurn[]
+}
+
+export type VoiceSettings = {
+  selectedVoice: string
+  volume: number
+  rate: number
+  pitch: number
+}
+
+// Measured durations of each phase of a practice session, in milliseconds
+export type PhaseTimings = {
+  listenMs: number
+  prepMs: number
+  speakMs: number
+}
+
+// A recognised chunk of the retelling, timed against the audio recording
+export type TranscriptSegment = {
+  text: string
+  startMs: number
+  endMs: number
+}
+
+// Metadata for the learner's recorded retelling; the audio itself is stored separately, keyed by session id
+export type SessionRecording = {
+  mimeType: string
+  durationMs: number
+  // Approximate: Web Speech only reports when a result arrives, not when each word was said
+  segments: TranscriptSegment[]
+}
+
+// How the retelling was given: spoken and transcribed, or typed when recognition isn't available
+export type ResponseMode = "spoken" | "typed"
+
+export type PracticeSession = {
+  id: string
+  storyId: number
+  difficulty: StoryDifficulty
+  timestamp: Date
+  score: number
+  transcript: string
+  breakdown: ScoreResult
+  timings: PhaseTimings
+  voiceSettings: VoiceSettings
+  // Exam profile whose prep/speak times and scoring weights were used
+  examProfileId: string
+  // Id of the session this attempt retried ("Try Same Story"), or null for a fresh story
+  retryOf: string | null
+  recording: SessionRecording | null
+  responseMode: ResponseMode
+  // Language of the story bank the story came from (story ids are only unique within one bank)
+  language: string
+}
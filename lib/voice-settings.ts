@@ -0,0 +1,69 @@
+import { DEFAULT_LOCALE, getLocale, isLanguageVoice, voiceMatchesLocale } from "@/lib/locales"
+import type { VoiceSettings } from "@/lib/types"
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  selectedVoice: "",
+  volume: 1.0,
+  rate: 0.8,
+  pitch: 1.0,
+}
+
+export const RATE_RANGE = { min: 0.5, max: 1.5 }
+export const VOLUME_RANGE = { min: 0.1, max: 1.0 }
+export const PITCH_RANGE = { min: 0.5, max: 1.5 }
+
+// Spoken by the Preview button in the language being practised
+const PREVIEW_TEXTS: Record<string, string> = {
+  en: "This is how stories will sound with these voice settings.",
+  es: "Así sonarán las historias con esta configuración de voz.",
+  fr: "Voici comment les histoires seront lues avec ces réglages de voix.",
+  de: "So klingen die Geschichten mit diesen Spracheinstellungen.",
+}
+
+export function previewText(language: string): string {
+  return PREVIEW_TEXTS[language] ?? PREVIEW_TEXTS.en
+}
+
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback
+  return Math.min(range.max, Math.max(range.min, value))
+}
+
+// Rebuild voice settings from untrusted storage
+export function sanitizeVoiceSettings(value: unknown): VoiceSettings {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<VoiceSettings>
+  return {
+    selectedVoice: typeof stored.selectedVoice === "string" ? stored.selectedVoice : DEFAULT_VOICE_SETTINGS.selectedVoice,
+    volume: clamp(stored.volume, VOLUME_RANGE, DEFAULT_VOICE_SETTINGS.volume),
+    rate: clamp(stored.rate, RATE_RANGE, DEFAULT_VOICE_SETTINGS.rate),
+    pitch: clamp(stored.pitch, PITCH_RANGE, DEFAULT_VOICE_SETTINGS.pitch),
+  }
+}
+
+// Identifies a browser/OS voice set. Voices differ per device, so settings are remembered per voice set.
+export function voiceSetKey(voices: SpeechSynthesisVoice[]): string {
+  const names = voices.map((voice) => voice.voiceURI || voice.name).sort()
+  let hash = 5381
+  for (const char of names.join("|")) {
+    hash = ((hash << 5) + hash + char.charCodeAt(0)) | 0
+  }
+  return `voices-${voices.length}-${(hash >>> 0).toString(36)}`
+}
+
+// The chosen voice when it's installed, else the best voice for the locale, else the best voice of its language
+export function resolveVoice(
+  voices: SpeechSynthesisVoice[],
+  settings: VoiceSettings,
+  locale: string = DEFAULT_LOCALE,
+): SpeechSynthesisVoice | null {
+  const { language } = getLocale(locale)
+  return (
+    voices.find((v) => v.name === settings.selectedVoice) ||
+    voices.find((v) => voiceMatchesLocale(v, locale) && v.localService) ||
+    voices.find((v) => voiceMatchesLocale(v, locale)) ||
+    voices.find((v) => isLanguageVoice(v, language) && v.localService) ||
+    voices.find((v) => isLanguageVoice(v, language)) ||
+    voices[0] ||
+    null
+  )
+}
@@ -0,0 +1,52 @@
+// Import stories from a numbered plain-text list ("1.Text…" per line) into the story bank:
+// npm run import:stories -- path/to/stories.txt [--bank public/data/stories.json] [--dry-run]
+import fs from "node:fs"
+import path from "node:path"
+import {
+  mergeImportedStories,
+  parseNumberedStories,
+  parseStoryBank,
+  serializeStoryBank,
+  validateStoryBank,
+} from "@/lib/story-bank"
+
+const args = process.argv.slice(2)
+const dryRun = args.includes("--dry-run")
+const bankIndex = args.indexOf("--bank")
+const bankFile = path.resolve(bankIndex !== -1 ? args[bankIndex + 1] : "public/data/stories.json")
+const source = args.find((arg, i) => !arg.startsWith("--") && (bankIndex === -1 || i !== bankIndex + 1))
+
+if (!source) {
+  console.error("Usage: npm run import:stories -- <stories.txt> [--bank public/data/stories.json] [--dry-run]")
+  process.exit(1)
+}
+
+let result: ReturnType<typeof mergeImportedStories>
+try {
+  const bank = parseStoryBank(JSON.parse(fs.readFileSync(bankFile, "utf8")))
+  const texts = parseNumberedStories(fs.readFileSync(path.resolve(source), "utf8"))
+  result = mergeImportedStories(bank, texts)
+} catch (error) {
+  console.error(`Import failed: ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+}
+
+for (const story of result.added) {
+  console.log(`+ #${story.id} [${story.difficulty}, ${story.wordCount} words] ${story.text.slice(0, 60)}…`)
+}
+console.log(`${result.added.length} added, ${result.skipped.length} already in the bank`)
+
+// The merged bank has to pass validate:stories, so a bad bank is never written
+const errors = validateStoryBank(result.bank).filter((issue) => issue.severity === "error")
+for (const issue of errors) console.error(`ERROR ${issue.path}: ${issue.message}`)
+if (errors.length > 0) {
+  console.error(`Import failed: the merged bank has ${errors.length} error(s) - nothing written`)
+  process.exit(1)
+}
+
+if (dryRun) {
+  console.log("Dry run - nothing written")
+} else if (result.added.length > 0) {
+  fs.writeFileSync(bankFile, serializeStoryBank(result.bank))
+  console.log(`Wrote ${path.relative(process.cwd(), bankFile)}`)
+}
@@ -0,0 +1,70 @@
+// Validate the story banks: npm run validate:stories [-- path/to/stories.json] [--fix]
+// Without a path every language's bank in public/data is checked.
+// --fix rewrites drifted wordCount values in place; everything else has to be fixed by hand.
+import fs from "node:fs"
+import path from "node:path"
+import { STORY_BANKS, countWords, serializeStoryBank, storyBankSchema, validateStoryBank } from "@/lib/story-bank"
+
+const args = process.argv.slice(2)
+const fix = args.includes("--fix")
+const fileArg = args.find((arg) => !arg.startsWith("--"))
+const files = fileArg ? [path.resolve(fileArg)] : STORY_BANKS.map((bank) => path.resolve("public", bank.url.slice(1)))
+
+// Returns the number of errors found in one bank file
+function validateFile(file: string): number {
+  let data: unknown
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"))
+  } catch (error) {
+    console.error(`Could not read ${file}: ${error instanceof Error ? error.message : error}`)
+    return 1
+  }
+
+  if (fix) {
+    const parsed = storyBankSchema.safeParse(data)
+    if (parsed.success) {
+      let fixed = 0
+      for (const story of parsed.data.stories) {
+        const actual = countWords(story.text)
+        if (story.wordCount !== actual) {
+          story.wordCount = actual
+          fixed++
+        }
+      }
+      if (fixed > 0) {
+        fs.writeFileSync(file, serializeStoryBank(parsed.data))
+        console.log(`Fixed wordCount on ${fixed} stor${fixed === 1 ? "y" : "ies"}`)
+      }
+      data = parsed.data
+    }
+  }
+
+  const issues = validateStoryBank(data)
+
+  // Site-relative narration files should exist under public/; a missing one silently falls back to TTS
+  const parsed = storyBankSchema.safeParse(data)
+  if (parsed.success) {
+    parsed.data.stories.forEach((story, index) => {
+      if (!story.audioUrl?.startsWith("/")) return
+      if (!fs.existsSync(path.join("public", story.audioUrl))) {
+        issues.push({
+          severity: "warning",
+          path: `stories[${index}].audioUrl`,
+          message: `Story ${story.id} audio ${story.audioUrl} not found in public/`,
+        })
+      }
+    })
+  }
+  for (const issue of issues) {
+    const log = issue.severity === "error" ? console.error : console.warn
+    log(`${issue.severity.toUpperCase()} ${issue.path}: ${issue.message}`)
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length
+  const warnings = issues.length - errors
+  console.log(`${path.relative(process.cwd(), file)}: ${errors} error(s), ${warnings} warning(s)`)
+  return errors
+}
+
+const totalErrors = files.reduce((sum, file) => sum + validateFile(file), 0)
+process.exit(totalErrors > 0 ? 1 : 0)